@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { AuthorizationFlow, AuthorizationError } from './authorizationFlow.js';
+import { createTestLogger } from '../testing/logger.js';
+
+const getState = (url: string) => new URL(url).searchParams.get('state')!;
+
+describe('AuthorizationFlow', () => {
+  let flow: AuthorizationFlow;
+
+  beforeEach(() => {
+    flow = new AuthorizationFlow({
+      oauth: {
+        clientId: 'client-id',
+        clientSecret: 'client-secret',
+        redirectUri: 'https://example.com/oauth/callback',
+        scopes: ['openid', 'email']
+      },
+      stateTtl: 60 * 1000,
+      allowedEmails: [],
+      allowedDomains: []
+    }, createTestLogger());
+  });
+
+  it('rejects a state with a multibyte signature as invalid', async () => {
+    const state = getState(await flow.createAuthUrl('default'));
+    const [data, signature] = state.split('.');
+    expect(signature).toHaveLength(43);
+
+    await expect(flow.complete('code', `${data}.${'é'.repeat(43)}`)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('rejects a callback from a browser other than the one that started the authorization', async () => {
+    const { url } = await flow.createBrowserAuthorization('default');
+
+    await expect(flow.complete('code', getState(url), 'another-browser')).rejects.toThrow(/another browser/);
+    await expect(flow.complete('code', getState(url))).rejects.toThrow(/already used/);
+  });
+
+  it('rejects a callback without the browser key', async () => {
+    const { url } = await flow.createBrowserAuthorization('default');
+
+    await expect(flow.complete('code', getState(url))).rejects.toBeInstanceOf(AuthorizationError);
+  });
+
+  it('limits the authorizations pending at once', async () => {
+    for (let i = 0; i < 100; i++) {
+      await flow.createAuthUrl('default');
+    }
+
+    await expect(flow.createBrowserAuthorization('default')).rejects.toMatchObject({ status: 503 });
+  });
+
+  it('redeems a ticket only once', () => {
+    const ticket = flow.createTicket('work');
+
+    expect(flow.redeemTicket(ticket)).toBe('work');
+    expect(flow.redeemTicket(ticket)).toBeNull();
+    expect(flow.redeemTicket('unknown')).toBeNull();
+  });
+});
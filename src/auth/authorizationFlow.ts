@@ -0,0 +1,297 @@
+import crypto from 'crypto';
+import { Credentials, CodeChallengeMethod, OAuth2Client } from 'google-auth-library';
+import { google } from 'googleapis';
+import { OAuthConfig } from './oauthHandler.js';
+import { ILogger } from '../utils/logger.js';
+
+interface AuthorizationFlowConfig {
+  oauth: OAuthConfig;
+  stateSecret?: string; // random per process when absent
+  stateTtl: number; // in milliseconds
+  allowedEmails: string[];
+  allowedDomains: string[];
+}
+
+interface PendingAuthorization {
+  accountId: string;
+  codeVerifier: string;
+  browserKeyHash?: string; // set when the callback must come from the browser that started the flow
+  expiresAt: number;
+}
+
+interface AuthorizationTicket {
+  accountId: string;
+  expiresAt: number;
+}
+
+// Authorization started in a browser. The browser key is kept in a cookie and checked by the callback,
+// so a state cannot be completed by a browser other than the one that started it.
+export interface BrowserAuthorization {
+  url: string;
+  browserKey: string;
+}
+
+// Limit of authorizations and tickets waiting to be completed, so they cannot fill the memory
+const MAX_PENDING_AUTHORIZATIONS = 100;
+
+export interface AuthorizedIdentity {
+  email: string;
+  hostedDomain?: string;
+}
+
+export interface AuthorizationResult {
+  accountId: string;
+  tokens: Credentials;
+  identity: AuthorizedIdentity | null;
+}
+
+/**
+ * Error of the authorization callback, with the HTTP status it should be answered with
+ */
+export class AuthorizationError extends Error {
+  public readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AuthorizationError';
+    this.status = status;
+  }
+}
+
+/**
+ * Runs the OAuth authorization code flow with a signed, expiring, single-use state and PKCE (S256).
+ * The identity of the Google user is checked against the allowed emails and domains before any
+ * token is handed over to be stored.
+ */
+export class AuthorizationFlow {
+  private config: AuthorizationFlowConfig;
+  private client: OAuth2Client;
+  private stateSecret: Buffer;
+  private pending: { [nonce: string]: PendingAuthorization } = {};
+  private tickets: { [ticket: string]: AuthorizationTicket } = {};
+  private logger: ILogger;
+
+  constructor(config: AuthorizationFlowConfig, logger: ILogger) {
+    this.config = config;
+    this.logger = logger;
+    this.stateSecret = config.stateSecret
+      ? Buffer.from(config.stateSecret)
+      : crypto.randomBytes(32);
+
+    this.client = new google.auth.OAuth2(
+      config.oauth.clientId,
+      config.oauth.clientSecret,
+      config.oauth.redirectUri
+    );
+
+    this.logger.debug(`[OAUTH] Authorization flow ready | Allowed emails: ${config.allowedEmails.length || 'any'} | Allowed domains: ${config.allowedDomains.join(', ') || 'any'}`);
+  }
+
+  /**
+   * Checks if only some Google accounts may be linked
+   */
+  public isRestricted(): boolean {
+    return this.config.allowedEmails.length > 0 || this.config.allowedDomains.length > 0;
+  }
+
+  /**
+   * Generates the authorization URL that links an account. The state is not bound to a browser,
+   * so the URL must only be shown to the operator (e.g. the local authorization of stdio mode).
+   */
+  public async createAuthUrl(accountId: string): Promise<string> {
+    return this.createAuthorization(accountId);
+  }
+
+  /**
+   * Generates the authorization URL that links an account, bound to the browser that follows it
+   */
+  public async createBrowserAuthorization(accountId: string): Promise<BrowserAuthorization> {
+    const browserKey = crypto.randomBytes(32).toString('base64url');
+    const url = await this.createAuthorization(accountId, browserKey);
+    return { url, browserKey };
+  }
+
+  /**
+   * Creates a single-use ticket that starts the authorization of an account in a browser. Used when
+   * the authorization is requested with a bearer token, which a browser does not send.
+   */
+  public createTicket(accountId: string): string {
+    this.removeExpired();
+    if (Object.keys(this.tickets).length >= MAX_PENDING_AUTHORIZATIONS) {
+      throw new AuthorizationError('Too many authorizations in progress. Please try again later', 503);
+    }
+
+    const ticket = crypto.randomBytes(32).toString('base64url');
+    this.tickets[ticket] = { accountId, expiresAt: Date.now() + this.config.stateTtl };
+    return ticket;
+  }
+
+  /**
+   * Redeems a ticket created by createTicket
+   *
+   * @returns The ID of the account to link, or null when the ticket is unknown, used or expired
+   */
+  public redeemTicket(ticket: string): string | null {
+    const entry = this.tickets[ticket];
+    delete this.tickets[ticket];
+
+    return entry && entry.expiresAt >= Date.now() ? entry.accountId : null;
+  }
+
+  /**
+   * Validates the state of a callback and exchanges its code for tokens
+   */
+  public async complete(code: string, state: string, browserKey?: string): Promise<AuthorizationResult> {
+    const payload = this.verifyState(state);
+
+    // The state is single use
+    const pending = this.pending[payload.nonce];
+    delete this.pending[payload.nonce];
+
+    if (!pending || pending.accountId !== payload.accountId) {
+      throw new AuthorizationError('Unknown or already used authorization state. Please start again at /auth', 400);
+    }
+
+    if (pending.browserKeyHash && !this.matchesHash(browserKey, pending.browserKeyHash)) {
+      this.logger.warn(`[OAUTH] Authorization completed by another browser | Account: ${pending.accountId}`);
+      throw new AuthorizationError('The authorization was started in another browser. Please start again at /auth', 400);
+    }
+
+    const { tokens } = await this.client.getToken({ code, codeVerifier: pending.codeVerifier });
+
+    if (!tokens.refresh_token) {
+      this.logger.error('[OAUTH] No refresh token returned');
+      throw new Error('No refresh token returned. Ensure the request includes prompt=consent');
+    }
+
+    const identity = await this.getIdentity(tokens);
+
+    if (!this.isAllowed(identity)) {
+      this.logger.warn(`[OAUTH] Account not allowed to link: ${identity?.email || 'unknown'}`);
+      await this.discard(tokens);
+      throw new AuthorizationError('This Google account is not allowed to be linked to the server', 403);
+    }
+
+    this.logger.debug(`[OAUTH] Authorization completed | Account: ${pending.accountId} | Refresh: ${tokens.refresh_token ? 'present' : 'absent'}`);
+    return { accountId: pending.accountId, tokens, identity };
+  }
+
+  /**
+   * Revokes tokens of a completed authorization that will not be stored
+   */
+  public async discard(tokens: Credentials): Promise<void> {
+    await this.client.revokeToken(tokens.access_token!).catch(error => {
+      this.logger.warn(`[OAUTH] Could not revoke rejected token: ${error}`);
+    });
+  }
+
+  private async createAuthorization(accountId: string, browserKey?: string): Promise<string> {
+    this.removeExpired();
+    if (Object.keys(this.pending).length >= MAX_PENDING_AUTHORIZATIONS) {
+      throw new AuthorizationError('Too many authorizations in progress. Please try again later', 503);
+    }
+
+    const { codeVerifier, codeChallenge } = await this.client.generateCodeVerifierAsync();
+    const nonce = crypto.randomBytes(16).toString('base64url');
+    const expiresAt = Date.now() + this.config.stateTtl;
+    this.pending[nonce] = {
+      accountId,
+      codeVerifier,
+      browserKeyHash: browserKey ? this.hash(browserKey) : undefined,
+      expiresAt
+    };
+
+    const authUrl = this.client.generateAuthUrl({
+      access_type: 'offline',
+      scope: this.config.oauth.scopes,
+      prompt: 'consent',  // Forces the consent prompt to always obtain a refresh token
+      state: this.signState({ accountId, nonce, expiresAt }),
+      code_challenge: codeChallenge,
+      code_challenge_method: CodeChallengeMethod.S256
+    });
+
+    this.logger.debug(`[OAUTH] Authorization URL generated | Account: ${accountId} | Bound to browser: ${!!browserKey}`);
+    return authUrl;
+  }
+
+  private async getIdentity(tokens: Credentials): Promise<AuthorizedIdentity | null> {
+    if (!tokens.id_token) {
+      return null;
+    }
+
+    const ticket = await this.client.verifyIdToken({
+      idToken: tokens.id_token,
+      audience: this.config.oauth.clientId
+    });
+    const payload = ticket.getPayload();
+
+    // Unverified emails could belong to anyone
+    if (!payload?.email || !payload.email_verified) {
+      return null;
+    }
+
+    return { email: payload.email.toLowerCase(), hostedDomain: payload.hd };
+  }
+
+  private isAllowed(identity: AuthorizedIdentity | null): boolean {
+    if (!this.isRestricted()) {
+      return true;
+    }
+
+    if (!identity) {
+      return false;
+    }
+
+    return this.config.allowedEmails.includes(identity.email)
+      || (!!identity.hostedDomain && this.config.allowedDomains.includes(identity.hostedDomain.toLowerCase()));
+  }
+
+  private signState(payload: { accountId: string, nonce: string, expiresAt: number }): string {
+    const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${data}.${this.sign(data)}`;
+  }
+
+  private verifyState(state: string): { accountId: string, nonce: string, expiresAt: number } {
+    const [data, signature] = state.split('.');
+    const expected = Buffer.from(data ? this.sign(data) : '');
+    const received = Buffer.from(signature ?? '');
+
+    // Lengths are compared in bytes, as timingSafeEqual throws on buffers of different lengths
+    if (!signature || received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      throw new AuthorizationError('Invalid authorization state', 400);
+    }
+
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+    if (payload.expiresAt < Date.now()) {
+      throw new AuthorizationError('Authorization state expired. Please start again at /auth', 400);
+    }
+
+    return payload;
+  }
+
+  private sign(data: string): string {
+    return crypto.createHmac('sha256', this.stateSecret).update(data).digest('base64url');
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('base64url');
+  }
+
+  private matchesHash(value: string | undefined, expectedHash: string): boolean {
+    return !!value && crypto.timingSafeEqual(Buffer.from(this.hash(value)), Buffer.from(expectedHash));
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    for (const [nonce, pending] of Object.entries(this.pending)) {
+      if (pending.expiresAt < now) {
+        delete this.pending[nonce];
+      }
+    }
+    for (const [ticket, entry] of Object.entries(this.tickets)) {
+      if (entry.expiresAt < now) {
+        delete this.tickets[ticket];
+      }
+    }
+  }
+}
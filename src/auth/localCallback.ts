@@ -0,0 +1,70 @@
+import http from 'http';
+import { AuthorizationError } from './authorizationFlow.js';
+import { successTemplate, errorTemplate } from '../views/templates.js';
+import { ILogger } from '../utils/logger.js';
+
+interface LocalCallbackConfig {
+  redirectUri: string;
+  timeout: number; // in milliseconds
+}
+
+/**
+ * Listens on the OAuth redirect URI until one authorization completes, for runs without the
+ * HTTP server (stdio mode). Each callback is passed to the handler, which links the account.
+ * Resolves after the first successful authorization and rejects when the timeout expires.
+ */
+export const listenForAuthorization = (
+  config: LocalCallbackConfig,
+  handler: (code: string, state: string) => Promise<void>,
+  onFailure: () => Promise<void>,
+  logger: ILogger
+): Promise<void> => {
+  const redirectUrl = new URL(config.redirectUri);
+
+  return new Promise((resolve, reject) => {
+    const callbackServer = http.createServer(async (req, res) => {
+      const url = new URL(req.url || '/', redirectUrl);
+
+      if (url.pathname !== redirectUrl.pathname) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const code = url.searchParams.get('code');
+      const state = url.searchParams.get('state');
+
+      try {
+        if (!code || !state) {
+          throw new AuthorizationError(url.searchParams.get('error') || 'Missing authorization code or state', 400);
+        }
+
+        await handler(code, state);
+        res.writeHead(200, { 'Content-Type': 'text/html' }).end(successTemplate);
+
+        clearTimeout(timer);
+        callbackServer.close();
+        resolve();
+      } catch (error) {
+        logger.error('[OAUTH] Local authorization failed:', error);
+        const status = error instanceof AuthorizationError ? error.status : 500;
+        res.writeHead(status, { 'Content-Type': 'text/html' }).end(errorTemplate(`${error instanceof Error ? error.message : error}`));
+        await onFailure();
+      }
+    });
+
+    const timer = setTimeout(() => {
+      callbackServer.close();
+      reject(new Error('Timed out waiting for the OAuth authorization'));
+    }, config.timeout);
+
+    callbackServer.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+
+    // Only local browsers can reach the listener
+    callbackServer.listen(parseInt(redirectUrl.port || '80'), '127.0.0.1', () => {
+      logger.debug(`[OAUTH] Waiting for the authorization callback at ${config.redirectUri}`);
+    });
+  });
+};
@@ -32,53 +32,6 @@ export class OAuthHandler {
     this.logger.debug('[OAUTH] Client successfully created');
   }
 
-  /**
-   * Generates the authorization URL to start the OAuth flow
-   */
-  public generateAuthUrl(): string {
-    this.logger.debug('[OAUTH] Generating authorization URL');
-
-    const authUrl = this.client.generateAuthUrl({
-      access_type: 'offline',
-      scope: this.config.scopes,
-      prompt: 'consent'  // Forces the consent prompt to always obtain a refresh token
-    });
-
-    this.logger.debug(`[OAUTH] URL generated: ${authUrl}`);
-    return authUrl;
-  }
-
-  /**
-   * Exchanges the authorization code for access and refresh tokens
-   */
-  public async exchangeCode(code: string): Promise<any> {
-    this.logger.debug(`[OAUTH] Exchanging code (partial: ${code.substring(0, 10)}...) for tokens`);
-
-    try {
-      const { tokens } = await this.client.getToken(code);
-
-      this.logger.debug(`[OAUTH] Tokens received | Access: ${tokens.access_token?.substring(0, 10)}... | Refresh: ${tokens.refresh_token ? 'present' : 'absent'} | Expiration: ${tokens.expiry_date ? new Date(tokens.expiry_date).toISOString() : 'N/A'}`);
-
-      if (!tokens.refresh_token) {
-        this.logger.error('[OAUTH] No refresh token returned');
-        throw new Error('No refresh token returned. Ensure the request includes prompt=consent');
-      }
-
-      // Stores the tokens in the token manager
-      this.logger.debug('[OAUTH] Saving tokens');
-      await this.tokenManager.saveTokens(tokens);
-
-      this.logger.debug('[OAUTH] Setting up client');
-      this.client.setCredentials(tokens);
-
-      this.logger.debug('[OAUTH] Exchange successfully completed');
-      return tokens;
-    } catch (error) {
-      this.logger.error('[OAUTH] Error exchanging code for tokens:', error);
-      throw error;
-    }
-  }
-
   /**
    * Sets up the OAuth client with existing tokens
    */
@@ -101,7 +54,7 @@ export class OAuthHandler {
         timeToExpiry = Math.floor((expiryDate.getTime() - now.getTime()) / 1000 / 60);
       }
 
-      this.logger.debug(`[OAUTH] Tokens loaded | Access: ${tokens.access_token?.substring(0, 10)}... | Refresh: ${tokens.refresh_token ? 'present' : 'absent'} | Expiration: ${timeToExpiry}min`);
+      this.logger.debug(`[OAUTH] Tokens loaded | Access: ${tokens.access_token ? 'present' : 'absent'} | Refresh: ${tokens.refresh_token ? 'present' : 'absent'} | Expiration: ${timeToExpiry}min`);
 
       this.client.setCredentials(tokens);
       this.logger.debug('[OAUTH] Client successfully set up');
@@ -122,7 +75,7 @@ export class OAuthHandler {
       const tokens = await this.tokenManager.getTokens();
 
       if (tokens && tokens.access_token) {
-        this.logger.debug(`[OAUTH] Revoking access token: ${tokens.access_token.substring(0, 10)}...`);
+        this.logger.debug('[OAUTH] Revoking access token');
         await this.client.revokeToken(tokens.access_token);
         this.logger.debug('[OAUTH] Access token revoked');
       } else {
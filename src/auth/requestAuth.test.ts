@@ -0,0 +1,34 @@
+import { describe, it, expect } from '@jest/globals';
+import { RequestAuthenticator, expandScopes } from './requestAuth.js';
+import { createTestLogger } from '../testing/logger.js';
+
+const createAuthenticator = (apiKeys: string) =>
+  new RequestAuthenticator({ mode: 'apiKey', apiKeys, resourceUrl: 'https://example.com' }, createTestLogger());
+
+describe('RequestAuthenticator', () => {
+  it('grants the scopes implied by the highest scope of a key', async () => {
+    const authenticator = createAuthenticator('reader:read,writer:write,admin:admin,all');
+
+    expect((await authenticator.authenticate('reader'))?.scopes).toEqual(['read']);
+    expect((await authenticator.authenticate('writer'))?.scopes).toEqual(['read', 'write']);
+    expect((await authenticator.authenticate('admin'))?.scopes).toEqual(['read', 'write', 'admin']);
+    expect((await authenticator.authenticate('all'))?.scopes).toEqual(['read', 'write', 'admin']);
+  });
+
+  it('reads the scopes after the last colon of a key', async () => {
+    const authenticator = createAuthenticator('part1:part2:read');
+
+    expect((await authenticator.authenticate('part1:part2'))?.scopes).toEqual(['read']);
+    expect(await authenticator.authenticate('part1')).toBeNull();
+  });
+
+  it('rejects unknown scopes', () => {
+    expect(() => createAuthenticator('key:read+owner')).toThrow(/Invalid API key scopes: owner/);
+  });
+});
+
+describe('expandScopes', () => {
+  it('grants nothing without scopes', () => {
+    expect(expandScopes([])).toEqual([]);
+  });
+});
@@ -0,0 +1,288 @@
+import crypto from 'crypto';
+import { ILogger } from '../utils/logger.js';
+
+export type AuthMode = 'none' | 'apiKey' | 'oauth';
+
+// Scopes granted to API keys and OAuth access tokens, each one including those before it
+export type AuthScope = 'read' | 'write' | 'admin';
+export const AUTH_SCOPES: AuthScope[] = ['read', 'write', 'admin'];
+
+/**
+ * Expands granted scopes with the scopes they imply: admin implies write, and write implies read
+ */
+export const expandScopes = (scopes: AuthScope[]): AuthScope[] => {
+  const highest = Math.max(...scopes.map(scope => AUTH_SCOPES.indexOf(scope)));
+  return AUTH_SCOPES.slice(0, highest + 1);
+};
+
+export interface Principal {
+  id: string;
+  scopes: AuthScope[];
+  expiresAt?: number; // epoch milliseconds
+}
+
+interface OAuthResourceConfig {
+  issuerUrl: string;
+  introspectionUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+  audience?: string;
+}
+
+interface RequestAuthConfig {
+  mode: AuthMode;
+  apiKeys?: string; // comma separated, each one as key or key:scope+scope
+  resourceUrl: string; // public URL of the MCP server
+  oauth?: OAuthResourceConfig;
+}
+
+interface ApiKeyEntry {
+  id: string;
+  hash: Buffer;
+  scopes: AuthScope[];
+}
+
+// Introspection results are reused for a short time to avoid one request per MCP message
+const INTROSPECTION_CACHE_TTL = 60 * 1000; // 1 minute
+
+/**
+ * Authenticates clients of the MCP endpoints with static API keys or OAuth access tokens.
+ * In OAuth mode the server acts as a resource server (RFC 9728) of an external authorization server
+ * and validates tokens through token introspection (RFC 7662).
+ */
+export class RequestAuthenticator {
+  private config: RequestAuthConfig;
+  private apiKeys: ApiKeyEntry[] = [];
+  private issuerMetadata: { [key: string]: unknown } | null = null;
+  private introspectionCache: { [tokenHash: string]: { principal: Principal | null, cachedAt: number } } = {};
+  private logger: ILogger;
+
+  constructor(config: RequestAuthConfig, logger: ILogger) {
+    this.config = config;
+    this.logger = logger;
+
+    if (config.mode === 'apiKey') {
+      this.apiKeys = this.parseApiKeys(config.apiKeys || '');
+      if (!this.apiKeys.length) {
+        throw new Error('AUTH_MODE=apiKey requires at least one key in API_KEYS');
+      }
+    } else if (config.mode === 'oauth' && !config.oauth?.issuerUrl) {
+      throw new Error('AUTH_MODE=oauth requires OAUTH_ISSUER_URL');
+    }
+
+    this.logger.debug(`[AUTH] Initialized | Mode: ${config.mode} | API keys: ${this.apiKeys.length}`);
+  }
+
+  public getMode(): AuthMode {
+    return this.config.mode;
+  }
+
+  /**
+   * Checks if requests must be authenticated
+   */
+  public isEnabled(): boolean {
+    return this.config.mode !== 'none';
+  }
+
+  /**
+   * Resolves the principal of a bearer token, or null if the token is not valid
+   */
+  public async authenticate(token: string): Promise<Principal | null> {
+    if (this.config.mode === 'apiKey') {
+      return this.authenticateApiKey(token);
+    }
+
+    if (this.config.mode === 'oauth') {
+      return this.introspect(token);
+    }
+
+    return null;
+  }
+
+  /**
+   * Value of the WWW-Authenticate header sent with 401 and 403 responses
+   */
+  public getChallenge(error?: string, scope?: AuthScope): string {
+    const params = ['realm="mcp"'];
+
+    if (this.config.mode === 'oauth') {
+      params.push(`resource_metadata="${this.config.resourceUrl}/.well-known/oauth-protected-resource"`);
+    }
+    if (error) {
+      params.push(`error="${error}"`);
+    }
+    if (scope) {
+      params.push(`scope="${scope}"`);
+    }
+
+    return `Bearer ${params.join(', ')}`;
+  }
+
+  /**
+   * Protected resource metadata (RFC 9728) pointing MCP clients to the authorization server
+   */
+  public getResourceMetadata(): { [key: string]: unknown } {
+    return {
+      resource: this.config.resourceUrl,
+      authorization_servers: [this.config.oauth!.issuerUrl],
+      scopes_supported: AUTH_SCOPES,
+      bearer_methods_supported: ['header']
+    };
+  }
+
+  /**
+   * Metadata of the authorization server (RFC 8414), also served by this server for MCP clients
+   * that look for it on the MCP server's origin
+   */
+  public async getAuthorizationServerMetadata(): Promise<{ [key: string]: unknown }> {
+    if (this.issuerMetadata) {
+      return this.issuerMetadata;
+    }
+
+    const issuerUrl = this.config.oauth!.issuerUrl.replace(/\/$/, '');
+    const candidates = [
+      `${issuerUrl}/.well-known/oauth-authorization-server`,
+      `${issuerUrl}/.well-known/openid-configuration`
+    ];
+
+    for (const url of candidates) {
+      try {
+        const response = await fetch(url);
+        if (response.ok) {
+          this.issuerMetadata = await response.json() as { [key: string]: unknown };
+          this.logger.debug(`[AUTH] Authorization server metadata loaded from ${url}`);
+          return this.issuerMetadata;
+        }
+      } catch (error) {
+        this.logger.warn(`[AUTH] Could not load authorization server metadata from ${url}: ${error}`);
+      }
+    }
+
+    throw new Error(`Authorization server metadata not found for ${issuerUrl}`);
+  }
+
+  private authenticateApiKey(token: string): Principal | null {
+    const hash = crypto.createHash('sha256').update(token).digest();
+
+    // Every key is compared so the response time does not reveal which one matched
+    let match: ApiKeyEntry | null = null;
+    for (const entry of this.apiKeys) {
+      if (crypto.timingSafeEqual(hash, entry.hash)) {
+        match = entry;
+      }
+    }
+
+    return match ? { id: match.id, scopes: match.scopes } : null;
+  }
+
+  private async introspect(token: string): Promise<Principal | null> {
+    const tokenHash = crypto.createHash('sha256').update(token).digest('hex');
+    const cached = this.introspectionCache[tokenHash];
+    if (cached && Date.now() - cached.cachedAt < INTROSPECTION_CACHE_TTL
+      && (!cached.principal?.expiresAt || cached.principal.expiresAt > Date.now())) {
+      return cached.principal;
+    }
+
+    const principal = await this.requestIntrospection(token);
+
+    // Drops expired entries so the cache does not grow with every token seen
+    for (const [hash, entry] of Object.entries(this.introspectionCache)) {
+      if (Date.now() - entry.cachedAt >= INTROSPECTION_CACHE_TTL) {
+        delete this.introspectionCache[hash];
+      }
+    }
+    this.introspectionCache[tokenHash] = { principal, cachedAt: Date.now() };
+
+    return principal;
+  }
+
+  private async requestIntrospection(token: string): Promise<Principal | null> {
+    const oauth = this.config.oauth!;
+    const introspectionUrl = oauth.introspectionUrl
+      || (await this.getAuthorizationServerMetadata()).introspection_endpoint as string | undefined;
+
+    if (!introspectionUrl) {
+      throw new Error('No token introspection endpoint configured or advertised by the authorization server');
+    }
+
+    const headers: { [name: string]: string } = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json'
+    };
+    if (oauth.clientId) {
+      headers['Authorization'] = `Basic ${Buffer.from(`${oauth.clientId}:${oauth.clientSecret || ''}`).toString('base64')}`;
+    }
+
+    const response = await fetch(introspectionUrl, {
+      method: 'POST',
+      headers,
+      body: new URLSearchParams({ token, token_type_hint: 'access_token' }).toString()
+    });
+
+    if (!response.ok) {
+      throw new Error(`Token introspection failed with status ${response.status}`);
+    }
+
+    const result = await response.json() as {
+      active?: boolean;
+      sub?: string;
+      client_id?: string;
+      scope?: string;
+      exp?: number;
+      aud?: string | string[];
+    };
+
+    if (!result.active) {
+      this.logger.debug('[AUTH] Inactive token');
+      return null;
+    }
+
+    if (result.exp && result.exp * 1000 <= Date.now()) {
+      this.logger.debug('[AUTH] Expired token');
+      return null;
+    }
+
+    // Tokens issued for other resources must not be accepted (audience restriction)
+    if (oauth.audience) {
+      const audiences = Array.isArray(result.aud) ? result.aud : result.aud ? [result.aud] : [];
+      if (!audiences.includes(oauth.audience)) {
+        this.logger.warn(`[AUTH] Token audience does not include ${oauth.audience}`);
+        return null;
+      }
+    }
+
+    const scopes = (result.scope || '').split(' ')
+      .filter((scope): scope is AuthScope => AUTH_SCOPES.includes(scope as AuthScope));
+
+    return {
+      id: `oauth:${result.sub || result.client_id || 'unknown'}`,
+      scopes: expandScopes(scopes),
+      expiresAt: result.exp ? result.exp * 1000 : undefined
+    };
+  }
+
+  private parseApiKeys(value: string): ApiKeyEntry[] {
+    return value.split(',').map(item => item.trim()).filter(Boolean).map(item => {
+      // Keys may contain ":", so the scopes follow the last one
+      const separator = item.lastIndexOf(':');
+      const key = separator >= 0 ? item.substring(0, separator) : item;
+      const scopeList = separator >= 0 ? item.substring(separator + 1) : '';
+      const scopes = scopeList
+        ? scopeList.split('+').map(scope => scope.trim()) as AuthScope[]
+        : AUTH_SCOPES;
+
+      const invalid = scopes.filter(scope => !AUTH_SCOPES.includes(scope));
+      if (invalid.length) {
+        throw new Error(`Invalid API key scopes: ${invalid.join(', ')}. Use ${AUTH_SCOPES.join(', ')}`);
+      }
+
+      const hash = crypto.createHash('sha256').update(key).digest();
+      return {
+        // Keys are identified in logs and sessions by a short hash, never by their value
+        id: `apiKey:${hash.toString('hex').substring(0, 8)}`,
+        hash,
+        scopes: expandScopes(scopes)
+      };
+    });
+  }
+}
@@ -0,0 +1,65 @@
+import fs from 'fs';
+import { JWT } from 'google-auth-library';
+import { ILogger } from '../utils/logger.js';
+
+export interface ServiceAccountConfig {
+  keyFile?: string; // path of the JSON key
+  key?: string; // contents of the JSON key, instead of a file
+  subject?: string; // Workspace user impersonated by default (the service account itself when absent)
+  scopes: string[];
+}
+
+interface ServiceAccountKey {
+  type: string;
+  client_email: string;
+  private_key: string;
+}
+
+/**
+ * Authenticates with a service account key. With domain-wide delegation, the service account
+ * can act as any user of its Workspace domain, without an interactive authorization.
+ */
+export class ServiceAccountAuth {
+  private config: ServiceAccountConfig;
+  private key: ServiceAccountKey;
+  private logger: ILogger;
+
+  constructor(config: ServiceAccountConfig, logger: ILogger) {
+    this.config = config;
+    this.logger = logger;
+
+    const contents = config.key || (config.keyFile ? fs.readFileSync(config.keyFile, 'utf8') : '');
+    if (!contents) {
+      throw new Error('Service account mode requires GOOGLE_SERVICE_ACCOUNT_KEY_FILE or GOOGLE_SERVICE_ACCOUNT_KEY');
+    }
+
+    this.key = JSON.parse(contents);
+    if (this.key.type !== 'service_account' || !this.key.client_email || !this.key.private_key) {
+      throw new Error('Invalid service account key: expected the JSON key of a service account');
+    }
+
+    this.logger.debug(`[OAUTH] Service account: ${this.key.client_email} | Default user: ${config.subject || 'none'}`);
+  }
+
+  /**
+   * Email of the service account
+   */
+  public getEmail(): string {
+    return this.key.client_email;
+  }
+
+  /**
+   * Creates a client acting as a Workspace user, or as the default user when none is given.
+   * The client obtains and refreshes its own access tokens.
+   */
+  public createClient(subject: string | undefined = this.config.subject): JWT {
+    this.logger.debug(`[OAUTH] Creating service account client | User: ${subject || this.key.client_email}`);
+
+    return new JWT({
+      email: this.key.client_email,
+      key: this.key.private_key,
+      scopes: this.config.scopes,
+      subject
+    });
+  }
+}
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { ILogger } from '../utils/logger.js';
+
+interface TokenCipherConfig {
+  keys?: string; // comma separated, the first one encrypts and the others only decrypt
+  keyFile?: string; // one key per line, in the same order
+}
+
+interface CipherKey {
+  id: string;
+  key: Buffer;
+}
+
+// Stored form of an encrypted token file
+interface EncryptedEnvelope {
+  encrypted: typeof ALGORITHM;
+  keyId: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+/**
+ * Encrypts the stored OAuth tokens with AES-256-GCM.
+ * Several keys can be configured to rotate them: files are always written with the first key and
+ * files written with an older key are still read, so they can be rewritten with the current one.
+ */
+export class TokenCipher {
+  private keys: CipherKey[];
+  private logger: ILogger;
+
+  constructor(config: TokenCipherConfig, logger: ILogger) {
+    this.logger = logger;
+
+    const values = [
+      ...(config.keys || '').split(','),
+      ...(config.keyFile ? fs.readFileSync(config.keyFile, 'utf8').split(/\r?\n/) : [])
+    ].map(value => value.trim()).filter(Boolean);
+
+    this.keys = values.map(value => this.parseKey(value));
+
+    this.logger.debug(`[TOKEN] Encryption ${this.keys.length ? `enabled | Key: ${this.keys[0].id} | Previous keys: ${this.keys.length - 1}` : 'disabled'}`);
+  }
+
+  /**
+   * Checks if a key is configured
+   */
+  public isEnabled(): boolean {
+    return this.keys.length > 0;
+  }
+
+  /**
+   * Checks if stored content is encrypted
+   */
+  public isEncrypted(content: string): boolean {
+    return this.parseEnvelope(content) !== null;
+  }
+
+  /**
+   * Checks if stored content must be rewritten, because it is not encrypted with the current key
+   */
+  public needsReencryption(content: string): boolean {
+    return this.isEnabled() && this.parseEnvelope(content)?.keyId !== this.keys[0].id;
+  }
+
+  /**
+   * Encrypts content with the current key
+   */
+  public encrypt(plaintext: string): string {
+    const { id, key } = this.keys[0];
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    const envelope: EncryptedEnvelope = {
+      encrypted: ALGORITHM,
+      keyId: id,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+
+    return JSON.stringify(envelope, null, 2);
+  }
+
+  /**
+   * Decrypts stored content with the key it was encrypted with. Plain content is returned as is.
+   */
+  public decrypt(content: string): string {
+    const envelope = this.parseEnvelope(content);
+    if (!envelope) {
+      return content;
+    }
+
+    const match = this.keys.find(entry => entry.id === envelope.keyId);
+    if (!match) {
+      throw new Error(`Tokens are encrypted with key ${envelope.keyId}, which is not configured`);
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, match.key, Buffer.from(envelope.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(envelope.data, 'base64')),
+      decipher.final()
+    ]).toString('utf8');
+  }
+
+  private parseEnvelope(content: string): EncryptedEnvelope | null {
+    try {
+      const parsed = JSON.parse(content);
+      return parsed && parsed.encrypted === ALGORITHM ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private parseKey(value: string): CipherKey {
+    const key = /^[0-9a-fA-F]{64}$/.test(value)
+      ? Buffer.from(value, 'hex')
+      : Buffer.from(value, 'base64');
+
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`Invalid token encryption key: use ${KEY_LENGTH} random bytes in base64 or hex (e.g. openssl rand -base64 32)`);
+    }
+
+    // Keys are identified in files and logs by a short hash, never by their value
+    return { id: crypto.createHash('sha256').update(key).digest('hex').substring(0, 8), key };
+  }
+}
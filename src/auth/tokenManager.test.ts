@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import { describe, it, expect } from '@jest/globals';
+import { TokenManager } from './tokenManager.js';
+import { TokenCipher } from './tokenCipher.js';
+import { MemoryTokenStore } from './tokenStore.js';
+import { createTestLogger } from '../testing/logger.js';
+
+const CONFIG = { accountId: 'default', tokenRefreshInterval: 60 * 1000 };
+const TOKENS = { access_token: 'access', refresh_token: 'refresh', expiry_date: 1700000000000 };
+
+const createKey = () => crypto.randomBytes(32).toString('base64');
+
+describe('TokenManager', () => {
+  it('stores tokens encrypted and reads them back', async () => {
+    const logger = createTestLogger();
+    const store = new MemoryTokenStore();
+    const cipher = new TokenCipher({ keys: createKey() }, logger);
+
+    await new TokenManager(CONFIG, store, logger, cipher).saveTokens(TOKENS);
+
+    expect(await store.read('default')).not.toContain('refresh');
+    expect(await new TokenManager(CONFIG, store, logger, cipher).getTokens()).toEqual(TOKENS);
+  });
+
+  it('re-encrypts tokens written with a previous key', async () => {
+    const logger = createTestLogger();
+    const store = new MemoryTokenStore();
+    const oldKey = createKey();
+    const newKey = createKey();
+    const oldCipher = new TokenCipher({ keys: oldKey }, logger);
+    const newCipher = new TokenCipher({ keys: `${newKey},${oldKey}` }, logger);
+
+    await new TokenManager(CONFIG, store, logger, oldCipher).saveTokens(TOKENS);
+    expect(newCipher.needsReencryption((await store.read('default'))!)).toBe(true);
+
+    expect(await new TokenManager(CONFIG, store, logger, newCipher).getTokens()).toEqual(TOKENS);
+
+    const rewritten = (await store.read('default'))!;
+    expect(newCipher.needsReencryption(rewritten)).toBe(false);
+    // Once the old key is removed, the rewritten tokens can still be read
+    const currentCipher = new TokenCipher({ keys: newKey }, logger);
+    expect(await new TokenManager(CONFIG, store, logger, currentCipher).getTokens()).toEqual(TOKENS);
+  });
+
+  it('fails to load tokens encrypted with a key that is not configured', async () => {
+    const logger = createTestLogger();
+    const store = new MemoryTokenStore();
+
+    await new TokenManager(CONFIG, store, logger, new TokenCipher({ keys: createKey() }, logger)).saveTokens(TOKENS);
+    const manager = new TokenManager(CONFIG, store, logger, new TokenCipher({ keys: createKey() }, logger));
+
+    await expect(manager.getTokens()).rejects.toThrow(/not configured/);
+    expect(logger.error).toHaveBeenCalled();
+  });
+
+  it('does not load tokens cleared from a read-only store again', async () => {
+    const logger = createTestLogger();
+    const store = new MemoryTokenStore({ default: JSON.stringify(TOKENS) }, true);
+    const manager = new TokenManager(CONFIG, store, logger);
+
+    expect(await manager.getTokens()).toEqual(TOKENS);
+    await manager.clearTokens();
+
+    expect(await manager.getTokens()).toBeNull();
+    expect(await store.read('default')).not.toBeNull();
+
+    // Linking the account again makes its new tokens available
+    await manager.saveTokens({ ...TOKENS, access_token: 'new-access' });
+    expect((await manager.getTokens())?.access_token).toBe('new-access');
+  });
+});
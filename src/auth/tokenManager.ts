@@ -1,57 +1,47 @@
-import fs from 'fs';
-import path from 'path';
 import { Credentials } from 'google-auth-library';
+import { TokenCipher } from './tokenCipher.js';
+import { TokenStore } from './tokenStore.js';
+import { setAccessTokenExpiry, tokenRefreshesTotal } from '../utils/metrics.js';
 import { ILogger } from '../utils/logger.js';
 
 interface TokenManagerConfig {
-  tokenStoragePath: string;
+  accountId: string; // key of the tokens in the store
   tokenRefreshInterval: number; // in milliseconds
 }
 
 /**
- * Manages OAuth2 access and refresh tokens
+ * Manages OAuth2 access and refresh tokens, encrypted at rest when a cipher key is configured
  */
 export class TokenManager {
   private config: TokenManagerConfig;
   private tokens: Credentials | null = null;
+  private cleared = false; // tokens of a read-only store were cleared, so they are not loaded again
   private tokenRefreshListener: ((credentials: Credentials) => Promise<void>) | null = null;
   private refreshTimerId: NodeJS.Timeout | null = null;
+  private store: TokenStore;
+  private cipher?: TokenCipher;
   private logger: ILogger;
 
-  constructor(config: TokenManagerConfig, logger: ILogger) {
+  constructor(config: TokenManagerConfig, store: TokenStore, logger: ILogger, cipher?: TokenCipher) {
     this.config = config;
+    this.store = store;
     this.logger = logger;
-    this.logger.debug(`[TOKEN] Initialized | Storage: ${config.tokenStoragePath} | Interval: ${config.tokenRefreshInterval / 60000} min`);
-
-    // Ensure the token directory exists
-    const dir = path.dirname(this.config.tokenStoragePath);
-    if (!fs.existsSync(dir)) {
-      this.logger.debug(`[TOKEN] Creating directory: ${dir}`);
-      fs.mkdirSync(dir, { recursive: true });
-    }
+    this.cipher = cipher;
+    this.logger.debug(`[TOKEN] Initialized | Account: ${config.accountId} | Interval: ${config.tokenRefreshInterval / 60000} min`);
   }
 
   /**
-   * Saves tokens to the file system
+   * Saves tokens to the store
    */
   public async saveTokens(credentials: Credentials): Promise<void> {
     this.logger.debug(`[TOKEN] Saving | Expiration: ${credentials.expiry_date ? new Date(credentials.expiry_date).toISOString() : 'N/A'} | Refresh: ${credentials.refresh_token ? 'present' : 'absent'}`);
 
     try {
       this.tokens = credentials;
-      const dir = path.dirname(this.config.tokenStoragePath);
-
-      if (!fs.existsSync(dir)) {
-        this.logger.debug(`[TOKEN] Creating directory: ${dir}`);
-        fs.mkdirSync(dir, { recursive: true });
-      }
-
-      await fs.promises.writeFile(
-        this.config.tokenStoragePath,
-        JSON.stringify(credentials, null, 2)
-      );
-
-      this.logger.info(`[TOKEN] Successfully saved to ${this.config.tokenStoragePath}`);
+      this.cleared = false;
+      setAccessTokenExpiry(this.config.accountId, credentials.expiry_date);
+      await this.writeTokens(credentials);
+      this.logger.info(`[TOKEN] Successfully saved | Account: ${this.config.accountId}`);
     } catch (error) {
       this.logger.error('[TOKEN] Error saving:', error);
       throw error;
@@ -59,7 +49,8 @@ export class TokenManager {
   }
 
   /**
-   * Loads tokens from the file system
+   * Loads tokens from the store. Stored tokens that cannot be decrypted or parsed fail the load,
+   * so they are never taken for an account without tokens.
    */
   public async getTokens(): Promise<Credentials | null> {
     try {
@@ -68,16 +59,25 @@ export class TokenManager {
         return this.tokens;
       }
 
-      this.logger.debug(`[TOKEN] Loading from ${this.config.tokenStoragePath}`);
+      if (this.cleared) {
+        this.logger.debug(`[TOKEN] Tokens cleared from a read-only store | Account: ${this.config.accountId}`);
+        return null;
+      }
+
+      this.logger.debug(`[TOKEN] Loading | Account: ${this.config.accountId}`);
 
-      if (fs.existsSync(this.config.tokenStoragePath)) {
-        const tokensData = await fs.promises.readFile(
-          this.config.tokenStoragePath,
-          'utf8'
-        );
+      const tokensData = await this.store.read(this.config.accountId);
 
-        this.tokens = JSON.parse(tokensData);
+      if (tokensData) {
+        this.tokens = JSON.parse(this.cipher ? this.cipher.decrypt(tokensData) : tokensData);
 
+        // Tokens stored in plain text or with a previous key are rewritten with the current key
+        if (this.tokens && this.cipher?.needsReencryption(tokensData) && !this.store.readOnly) {
+          await this.writeTokens(this.tokens);
+          this.logger.info(`[TOKEN] Re-encrypted with the current key | Account: ${this.config.accountId}`);
+        }
+
+        setAccessTokenExpiry(this.config.accountId, this.tokens?.expiry_date);
         if (this.tokens && this.tokens.expiry_date) {
           const expiryDate = new Date(this.tokens.expiry_date);
           this.logger.debug(`[TOKEN] Loaded | Expires at: ${expiryDate.toISOString()}`);
@@ -86,15 +86,31 @@ export class TokenManager {
         return this.tokens;
       }
 
-      this.logger.debug('[TOKEN] File not found');
+      this.logger.debug('[TOKEN] No stored tokens');
       return null;
     } catch (error) {
-      this.logger.error('[TOKEN] Error loading:', error);
+      this.logger.error(`[TOKEN] Error loading tokens of account ${this.config.accountId}:`, error);
       this.tokens = null;
-      return null;
+      throw error;
     }
   }
 
+  /**
+   * Writes tokens to the store. Read-only stores keep them in memory only.
+   */
+  private async writeTokens(credentials: Credentials): Promise<void> {
+    if (this.store.readOnly) {
+      this.logger.debug(`[TOKEN] Read-only store, tokens kept in memory | Account: ${this.config.accountId}`);
+      return;
+    }
+
+    const data = JSON.stringify(credentials, null, 2);
+    await this.store.write(
+      this.config.accountId,
+      this.cipher?.isEnabled() ? this.cipher.encrypt(data) : data
+    );
+  }
+
   /**
    * Clears stored tokens
    */
@@ -103,10 +119,15 @@ export class TokenManager {
 
     try {
       this.tokens = null;
-
-      if (fs.existsSync(this.config.tokenStoragePath)) {
-        this.logger.debug(`[TOKEN] Removing file: ${this.config.tokenStoragePath}`);
-        await fs.promises.unlink(this.config.tokenStoragePath);
+      setAccessTokenExpiry(this.config.accountId, null);
+
+      if (!this.store.readOnly) {
+        this.logger.debug(`[TOKEN] Removing from store | Account: ${this.config.accountId}`);
+        await this.store.delete(this.config.accountId);
+      } else {
+        // The stored tokens stay until they are removed from the store, so they must not be loaded again
+        this.cleared = true;
+        this.logger.warn(`[TOKEN] Read-only store: tokens of account ${this.config.accountId} are cleared until the server restarts. Remove them from the store to clear them for good`);
       }
 
       this.logger.info('[TOKEN] Successfully removed');
@@ -187,7 +208,13 @@ export class TokenManager {
 
           if (shouldRefresh && this.tokenRefreshListener) {
             this.logger.debug('[TOKEN] Starting refresh');
-            await this.tokenRefreshListener(tokens);
+            try {
+              await this.tokenRefreshListener(tokens);
+            } catch (error) {
+              tokenRefreshesTotal.inc({ account: this.config.accountId, result: 'failure' });
+              throw error;
+            }
+            tokenRefreshesTotal.inc({ account: this.config.accountId, result: 'success' });
             this.logger.info('[TOKEN] Successfully updated');
           }
         } else if (!tokens) {
@@ -201,6 +228,11 @@ export class TokenManager {
         this.logger.error('[TOKEN] Error during refresh:', error);
       }
 
+      // Refresh was stopped while checking
+      if (!this.tokenRefreshListener) {
+        return;
+      }
+
       // Schedules the next check
       const nextCheckMinutes = this.config.tokenRefreshInterval / 60000;
       this.logger.debug(`[TOKEN] Next check in ${nextCheckMinutes}min`);
@@ -211,4 +243,16 @@ export class TokenManager {
     this.logger.debug('[TOKEN] Starting refresh cycle');
     checkAndRefreshToken();
   }
+
+  /**
+   * Stops the automatic token refresh
+   */
+  public stopTokenRefresh(): void {
+    if (this.refreshTimerId) {
+      this.logger.debug(`[TOKEN] Stopping refresh | Account: ${this.config.accountId}`);
+      clearTimeout(this.refreshTimerId);
+      this.refreshTimerId = null;
+    }
+    this.tokenRefreshListener = null;
+  }
 }
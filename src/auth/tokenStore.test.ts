@@ -0,0 +1,60 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { TokenStore, FileTokenStore, MemoryTokenStore, SqliteTokenStore } from './tokenStore.js';
+
+const stores: [string, (dir: string) => TokenStore][] = [
+  ['MemoryTokenStore', () => new MemoryTokenStore()],
+  ['FileTokenStore', dir => new FileTokenStore({ storageDir: dir })],
+  ['SqliteTokenStore', dir => new SqliteTokenStore({ databasePath: path.join(dir, 'tokens.db') })]
+];
+
+describe.each(stores)('%s', (_name, createStore) => {
+  let storageDir: string;
+  let store: TokenStore;
+
+  beforeEach(async () => {
+    storageDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'token-store-'));
+    store = createStore(storageDir);
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.promises.rm(storageDir, { recursive: true, force: true });
+  });
+
+  it('reads back the tokens written for each account', async () => {
+    await store.write('default', '{"refresh_token":"default"}');
+    await store.write('work', '{"refresh_token":"work"}');
+
+    expect(await store.read('default')).toBe('{"refresh_token":"default"}');
+    expect(await store.read('work')).toBe('{"refresh_token":"work"}');
+    expect((await store.list()).sort()).toEqual(['default', 'work']);
+  });
+
+  it('replaces the tokens of an account', async () => {
+    await store.write('work', 'first');
+    await store.write('work', 'second');
+
+    expect(await store.read('work')).toBe('second');
+  });
+
+  it('deletes the tokens of an account', async () => {
+    await store.write('work', 'tokens');
+    await store.delete('work');
+
+    expect(await store.read('work')).toBeNull();
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe('read-only stores', () => {
+  it('reject writes and deletes', async () => {
+    const store = new MemoryTokenStore({ default: 'tokens' }, true);
+
+    await expect(store.write('default', 'other')).rejects.toThrow(/read-only/);
+    await expect(store.delete('default')).rejects.toThrow(/read-only/);
+    expect(await store.read('default')).toBe('tokens');
+  });
+});
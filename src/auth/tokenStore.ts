@@ -0,0 +1,235 @@
+import fs from 'fs';
+import path from 'path';
+import type { Database } from 'better-sqlite3';
+import { writeFileAtomic } from '../utils/files.js';
+import { ILogger } from '../utils/logger.js';
+
+export type TokenStoreType = 'file' | 'memory' | 'sqlite' | 'env' | 'secret';
+
+/**
+ * Storage of the serialized (and possibly encrypted) tokens of each account
+ */
+export interface TokenStore {
+  // Read-only stores keep refreshed tokens in memory only
+  readonly readOnly: boolean;
+  read(accountId: string): Promise<string | null>;
+  write(accountId: string, data: string): Promise<void>;
+  delete(accountId: string): Promise<void>;
+  // Accounts that have stored tokens
+  list(): Promise<string[]>;
+  // Releases the storage when the server shuts down
+  close(): Promise<void>;
+}
+
+export interface TokenStoreConfig {
+  type: TokenStoreType;
+  path?: string; // directory of the file and secret stores, database of the SQLite store
+  tokens?: string; // tokens of the default account for the env store
+  defaultDir: string;
+}
+
+// The default account keeps the file name used before accounts existed
+const DEFAULT_ACCOUNT_ID = 'default';
+const TOKEN_FILE_PATTERN = /^tokens(?:-([A-Za-z0-9_-]{1,64}))?\.json$/;
+
+const readOnlyError = (accountId: string) =>
+  new Error(`Token store is read-only, tokens of account ${accountId} cannot be changed`);
+
+/**
+ * Stores each account in its own file. Mounted secrets use the same layout in read-only mode.
+ */
+export class FileTokenStore implements TokenStore {
+  public readonly readOnly: boolean;
+  private storageDir: string;
+
+  constructor(config: { storageDir: string, readOnly?: boolean }) {
+    this.storageDir = config.storageDir;
+    this.readOnly = !!config.readOnly;
+  }
+
+  public async read(accountId: string): Promise<string | null> {
+    const filePath = this.getPath(accountId);
+    return fs.existsSync(filePath) ? fs.promises.readFile(filePath, 'utf8') : null;
+  }
+
+  public async write(accountId: string, data: string): Promise<void> {
+    if (this.readOnly) {
+      throw readOnlyError(accountId);
+    }
+    await writeFileAtomic(this.getPath(accountId), data);
+  }
+
+  public async delete(accountId: string): Promise<void> {
+    if (this.readOnly) {
+      throw readOnlyError(accountId);
+    }
+    await fs.promises.rm(this.getPath(accountId), { force: true });
+  }
+
+  public async list(): Promise<string[]> {
+    if (!fs.existsSync(this.storageDir)) {
+      return [];
+    }
+
+    const accountIds: string[] = [];
+    for (const file of await fs.promises.readdir(this.storageDir)) {
+      const match = TOKEN_FILE_PATTERN.exec(file);
+      if (match) {
+        accountIds.push(match[1] || DEFAULT_ACCOUNT_ID);
+      }
+    }
+    return accountIds;
+  }
+
+  public async close(): Promise<void> {
+    // Files are written atomically, nothing is left open
+  }
+
+  private getPath(accountId: string): string {
+    const suffix = accountId === DEFAULT_ACCOUNT_ID ? '' : `-${accountId}`;
+    return path.join(this.storageDir, `tokens${suffix}.json`);
+  }
+}
+
+/**
+ * Keeps tokens in memory only. Useful for tests and for disposable instances.
+ */
+export class MemoryTokenStore implements TokenStore {
+  public readonly readOnly: boolean;
+  private tokens: { [accountId: string]: string };
+
+  constructor(initial: { [accountId: string]: string } = {}, readOnly = false) {
+    this.tokens = { ...initial };
+    this.readOnly = readOnly;
+  }
+
+  public async read(accountId: string): Promise<string | null> {
+    return this.tokens[accountId] ?? null;
+  }
+
+  public async write(accountId: string, data: string): Promise<void> {
+    if (this.readOnly) {
+      throw readOnlyError(accountId);
+    }
+    this.tokens[accountId] = data;
+  }
+
+  public async delete(accountId: string): Promise<void> {
+    if (this.readOnly) {
+      throw readOnlyError(accountId);
+    }
+    delete this.tokens[accountId];
+  }
+
+  public async list(): Promise<string[]> {
+    return Object.keys(this.tokens);
+  }
+
+  public async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+/**
+ * Stores tokens in a SQLite database, which several instances on the same host or volume can share
+ */
+export class SqliteTokenStore implements TokenStore {
+  public readonly readOnly = false;
+  private databasePath: string;
+  private db: Database | null = null;
+
+  constructor(config: { databasePath: string }) {
+    this.databasePath = config.databasePath;
+  }
+
+  public async read(accountId: string): Promise<string | null> {
+    const db = await this.open();
+    const row = db.prepare('SELECT data FROM tokens WHERE account_id = ?').get(accountId) as { data: string } | undefined;
+    return row ? row.data : null;
+  }
+
+  public async write(accountId: string, data: string): Promise<void> {
+    const db = await this.open();
+    db.prepare(`
+      INSERT INTO tokens (account_id, data, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT (account_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `).run(accountId, data, Date.now());
+  }
+
+  public async delete(accountId: string): Promise<void> {
+    const db = await this.open();
+    db.prepare('DELETE FROM tokens WHERE account_id = ?').run(accountId);
+  }
+
+  public async list(): Promise<string[]> {
+    const db = await this.open();
+    const rows = db.prepare('SELECT account_id FROM tokens').all() as { account_id: string }[];
+    return rows.map(row => row.account_id);
+  }
+
+  public async close(): Promise<void> {
+    // Closing checkpoints the write-ahead log into the database file
+    this.db?.close();
+    this.db = null;
+  }
+
+  private async open(): Promise<Database> {
+    if (this.db) {
+      return this.db;
+    }
+
+    // The driver is an optional dependency, only loaded when this store is used
+    const { default: BetterSqlite3 } = await import('better-sqlite3');
+
+    await fs.promises.mkdir(path.dirname(this.databasePath), { recursive: true, mode: 0o700 });
+    const db = new BetterSqlite3(this.databasePath);
+    fs.chmodSync(this.databasePath, 0o600);
+
+    // WAL and a busy timeout let several processes use the database at the same time
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS tokens (
+        account_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db = db;
+    return db;
+  }
+}
+
+/**
+ * Creates the token store selected in the configuration
+ */
+export const createTokenStore = (config: TokenStoreConfig, logger: ILogger): TokenStore => {
+  let store: TokenStore;
+
+  switch (config.type) {
+    case 'memory':
+      store = new MemoryTokenStore();
+      break;
+    case 'sqlite':
+      store = new SqliteTokenStore({ databasePath: config.path || path.join(config.defaultDir, 'tokens.db') });
+      break;
+    case 'env':
+      if (!config.tokens) {
+        throw new Error('TOKEN_STORE=env requires the tokens of the default account in GOOGLE_TOKENS');
+      }
+      store = new MemoryTokenStore({ [DEFAULT_ACCOUNT_ID]: config.tokens }, true);
+      break;
+    case 'secret':
+      if (!config.path) {
+        throw new Error('TOKEN_STORE=secret requires the directory of the token files in TOKEN_STORE_PATH');
+      }
+      store = new FileTokenStore({ storageDir: config.path, readOnly: true });
+      break;
+    default:
+      store = new FileTokenStore({ storageDir: config.path || config.defaultDir });
+  }
+
+  logger.debug(`[TOKEN] Store: ${config.type}${config.path ? ` | Path: ${config.path}` : ''}${store.readOnly ? ' | Read-only' : ''}`);
+  return store;
+};
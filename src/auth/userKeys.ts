@@ -0,0 +1,107 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { ILogger } from '../utils/logger.js';
+import { writeFileAtomic } from '../utils/files.js';
+
+interface UserKeyStoreConfig {
+  storagePath: string;
+}
+
+interface UserKeyEntry {
+  accountId: string;
+  email: string;
+  createdAt: number;
+}
+
+export interface UserIdentity {
+  accountId: string;
+  email: string;
+}
+
+/**
+ * Issues the keys that tie MCP sessions to the Google user who authorized them.
+ * Only hashes of the keys are stored, so the file does not grant access by itself.
+ */
+export class UserKeyStore {
+  private config: UserKeyStoreConfig;
+  private keys: { [keyHash: string]: UserKeyEntry } | null = null;
+  private logger: ILogger;
+
+  constructor(config: UserKeyStoreConfig, logger: ILogger) {
+    this.config = config;
+    this.logger = logger;
+    this.logger.debug(`[USERKEYS] Initialized | Storage: ${config.storagePath}`);
+  }
+
+  /**
+   * Issues a new key for a user, replacing the keys issued before
+   */
+  public async issue(identity: UserIdentity): Promise<string> {
+    const keys = await this.load();
+    this.removeAccount(keys, identity.accountId);
+
+    const key = crypto.randomBytes(32).toString('base64url');
+    keys[this.hash(key)] = { ...identity, createdAt: Date.now() };
+    await this.save();
+
+    this.logger.info(`[USERKEYS] Key issued | Account: ${identity.accountId}`);
+    return key;
+  }
+
+  /**
+   * Resolves the user of a key, or null if the key is unknown
+   */
+  public async resolve(key: string): Promise<UserIdentity | null> {
+    const keys = await this.load();
+    const entry = keys[this.hash(key)];
+    return entry ? { accountId: entry.accountId, email: entry.email } : null;
+  }
+
+  /**
+   * Revokes every key of an account
+   */
+  public async revoke(accountId: string): Promise<void> {
+    const keys = await this.load();
+    this.removeAccount(keys, accountId);
+    await this.save();
+    this.logger.info(`[USERKEYS] Keys revoked | Account: ${accountId}`);
+  }
+
+  private removeAccount(keys: { [keyHash: string]: UserKeyEntry }, accountId: string): void {
+    for (const [keyHash, entry] of Object.entries(keys)) {
+      if (entry.accountId === accountId) {
+        delete keys[keyHash];
+      }
+    }
+  }
+
+  private hash(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private async load(): Promise<{ [keyHash: string]: UserKeyEntry }> {
+    if (this.keys) {
+      return this.keys;
+    }
+
+    this.keys = {};
+
+    try {
+      if (fs.existsSync(this.config.storagePath)) {
+        const data = await fs.promises.readFile(this.config.storagePath, 'utf8');
+        this.keys = JSON.parse(data);
+        this.logger.debug(`[USERKEYS] Loaded ${Object.keys(this.keys!).length} keys`);
+      }
+    } catch (error) {
+      this.logger.error('[USERKEYS] Error loading keys:', error);
+      this.keys = {};
+    }
+
+    return this.keys!;
+  }
+
+  private async save(): Promise<void> {
+    // Every user's key is in the same file, so it is never left half written
+    await writeFileAtomic(this.config.storagePath, JSON.stringify(this.keys, null, 2));
+  }
+}
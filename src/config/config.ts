@@ -3,6 +3,8 @@ import defaultLogger, { ILogger } from '../utils/logger.js';
 
 // Configuration schema definition
 export const ConfigSchema = z.object({
+  // How MCP clients connect: http (SSE and Streamable HTTP endpoints) or stdio (also selected with --stdio)
+  TRANSPORT: z.enum(['http', 'stdio']).default('http'),
   PORT: z.string().default('3001'),
   HOST: z.string().default('0.0.0.0'),
   GOOGLE_CLIENT_ID: z.string(),
@@ -12,6 +14,75 @@ export const ConfigSchema = z.object({
   // Log levels separated by commas (error,warn,info,http,verbose,debug,silly)
   // Use 'debug' to enable all debug logs and lower levels
   LOG_LEVEL: z.string().default('error,warn,info'),
+  // Log output: text (colorized) or json (one object per line, for log aggregators)
+  LOG_FORMAT: z.enum(['text', 'json']).default('text'),
+  // Data removed from logs: tokens, codes, emails and descriptions (comma separated), all or none
+  LOG_REDACT: z.string().default('tokens,codes,emails,descriptions'),
+  // Seconds during which listEvents/getEvent are served from the local event cache (0 disables it)
+  EVENT_CACHE_TTL: z.string().default('60'),
+  // Calendar IDs (comma separated) watched through Google push notifications
+  WATCH_CALENDAR_IDS: z.string().default(''),
+  // Token sent by Google with each push notification (random per channel if not defined)
+  WATCH_CHANNEL_TOKEN: z.string().optional(),
+  // Lifetime of push notification channels in seconds
+  WATCH_CHANNEL_TTL: z.string().default('604800'),
+  // Authentication of the default account: oauth (interactive, at /auth) or serviceAccount
+  GOOGLE_AUTH_MODE: z.enum(['oauth', 'serviceAccount']).default('oauth'),
+  // JSON key of the service account, as a file path or as its contents
+  GOOGLE_SERVICE_ACCOUNT_KEY_FILE: z.string().optional(),
+  GOOGLE_SERVICE_ACCOUNT_KEY: z.string().optional(),
+  // Workspace user impersonated by default through domain-wide delegation (the service account itself if not defined)
+  GOOGLE_IMPERSONATE_USER: z.string().optional(),
+  // Workspace users (emails) and domains that admin sessions may impersonate per tool call (comma separated, none if empty)
+  GOOGLE_IMPERSONATE_ALLOWED: z.string().optional(),
+  // Retries of Google API requests that hit rate limits, server or network errors (0 disables them)
+  GOOGLE_MAX_RETRIES: z.string().default('4'),
+  // Delay before the first retry and longest delay between retries, in milliseconds.
+  // Delays double with each retry; a longer Retry-After from Google is not waited for.
+  GOOGLE_RETRY_BASE_DELAY: z.string().default('500'),
+  GOOGLE_RETRY_MAX_DELAY: z.string().default('30000'),
+  // Google API requests per second of each account (0 disables the limit) and requests allowed in a burst
+  GOOGLE_RATE_LIMIT: z.string().default('10'),
+  GOOGLE_RATE_BURST: z.string().default('20'),
+  // Storage of the OAuth tokens: file, memory, sqlite, env (GOOGLE_TOKENS) or secret (read-only files)
+  TOKEN_STORE: z.enum(['file', 'memory', 'sqlite', 'env', 'secret']).default('file'),
+  // Directory of the file and secret stores, or database of the sqlite store (default under data/)
+  TOKEN_STORE_PATH: z.string().optional(),
+  // Tokens of the default account, as stored in tokens.json, for the env store
+  GOOGLE_TOKENS: z.string().optional(),
+  // Keys (base64 or hex, 32 bytes) that encrypt the stored OAuth tokens, comma separated.
+  // The first key encrypts; the others are previous keys, only used to read files while rotating.
+  TOKEN_ENCRYPTION_KEY: z.string().optional(),
+  // File with the same keys, one per line (e.g. a Docker secret)
+  TOKEN_ENCRYPTION_KEY_FILE: z.string().optional(),
+  // Set to 'true' to tie each MCP session to the Google user who authorized it instead of one shared account
+  MULTI_TENANT: z.string().default('false'),
+  // Secret used to sign the OAuth state (random per process if not defined)
+  OAUTH_STATE_SECRET: z.string().optional(),
+  // Google accounts (emails) and Google Workspace domains allowed to be linked (comma separated, any if empty)
+  OAUTH_ALLOWED_EMAILS: z.string().optional(),
+  OAUTH_ALLOWED_DOMAINS: z.string().optional(),
+  // Authentication of the /mcp, /sse, /messages, /revoke, /admin and /metrics endpoints: none, apiKey or oauth
+  AUTH_MODE: z.enum(['none', 'apiKey', 'oauth']).default('none'),
+  // Bearer API keys (comma separated), each one optionally followed by its scopes, e.g. key1:read,key2:read+write+admin
+  API_KEYS: z.string().optional(),
+  // OAuth authorization server that issues access tokens for this server (AUTH_MODE=oauth)
+  OAUTH_ISSUER_URL: z.string().optional(),
+  // Token introspection endpoint (discovered from the authorization server metadata if not defined)
+  OAUTH_INTROSPECTION_URL: z.string().optional(),
+  // Client credentials used to call the introspection endpoint
+  OAUTH_INTROSPECTION_CLIENT_ID: z.string().optional(),
+  OAUTH_INTROSPECTION_CLIENT_SECRET: z.string().optional(),
+  // Audience that access tokens must be issued for (usually the public URL of this server)
+  OAUTH_AUDIENCE: z.string().optional(),
+  // Maximum number of open MCP sessions, over all transports
+  MAX_SESSIONS: z.string().default('100'),
+  // Maximum number of open MCP sessions of one client (principal, or IP address without endpoint authentication)
+  MAX_SESSIONS_PER_CLIENT: z.string().default('20'),
+  // Seconds without messages after which an MCP session is closed (0 keeps idle sessions open)
+  SESSION_IDLE_TIMEOUT: z.string().default('1800'),
+  // Seconds that running requests get to finish when the server is stopped
+  SHUTDOWN_TIMEOUT: z.string().default('25'),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -20,6 +91,7 @@ export type Config = z.infer<typeof ConfigSchema>;
 export const loadConfig = (logger: ILogger = defaultLogger): Config => {
   try {
     const config = ConfigSchema.parse({
+      TRANSPORT: process.argv.includes('--stdio') ? 'stdio' : process.env.TRANSPORT,
       PORT: process.env.PORT,
       HOST: process.env.HOST,
       GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID,
@@ -27,6 +99,42 @@ export const loadConfig = (logger: ILogger = defaultLogger): Config => {
       OAUTH_REDIRECT_PATH: process.env.OAUTH_REDIRECT_PATH,
       PUBLIC_URL: process.env.PUBLIC_URL,
       LOG_LEVEL: process.env.LOG_LEVEL,
+      LOG_FORMAT: process.env.LOG_FORMAT,
+      LOG_REDACT: process.env.LOG_REDACT,
+      EVENT_CACHE_TTL: process.env.EVENT_CACHE_TTL,
+      WATCH_CALENDAR_IDS: process.env.WATCH_CALENDAR_IDS,
+      WATCH_CHANNEL_TOKEN: process.env.WATCH_CHANNEL_TOKEN,
+      WATCH_CHANNEL_TTL: process.env.WATCH_CHANNEL_TTL,
+      GOOGLE_AUTH_MODE: process.env.GOOGLE_AUTH_MODE,
+      GOOGLE_SERVICE_ACCOUNT_KEY_FILE: process.env.GOOGLE_SERVICE_ACCOUNT_KEY_FILE,
+      GOOGLE_SERVICE_ACCOUNT_KEY: process.env.GOOGLE_SERVICE_ACCOUNT_KEY,
+      GOOGLE_IMPERSONATE_USER: process.env.GOOGLE_IMPERSONATE_USER,
+      GOOGLE_IMPERSONATE_ALLOWED: process.env.GOOGLE_IMPERSONATE_ALLOWED,
+      GOOGLE_MAX_RETRIES: process.env.GOOGLE_MAX_RETRIES,
+      GOOGLE_RETRY_BASE_DELAY: process.env.GOOGLE_RETRY_BASE_DELAY,
+      GOOGLE_RETRY_MAX_DELAY: process.env.GOOGLE_RETRY_MAX_DELAY,
+      GOOGLE_RATE_LIMIT: process.env.GOOGLE_RATE_LIMIT,
+      GOOGLE_RATE_BURST: process.env.GOOGLE_RATE_BURST,
+      TOKEN_STORE: process.env.TOKEN_STORE,
+      TOKEN_STORE_PATH: process.env.TOKEN_STORE_PATH,
+      GOOGLE_TOKENS: process.env.GOOGLE_TOKENS,
+      TOKEN_ENCRYPTION_KEY: process.env.TOKEN_ENCRYPTION_KEY,
+      TOKEN_ENCRYPTION_KEY_FILE: process.env.TOKEN_ENCRYPTION_KEY_FILE,
+      MULTI_TENANT: process.env.MULTI_TENANT,
+      OAUTH_STATE_SECRET: process.env.OAUTH_STATE_SECRET,
+      OAUTH_ALLOWED_EMAILS: process.env.OAUTH_ALLOWED_EMAILS,
+      OAUTH_ALLOWED_DOMAINS: process.env.OAUTH_ALLOWED_DOMAINS,
+      AUTH_MODE: process.env.AUTH_MODE,
+      API_KEYS: process.env.API_KEYS,
+      OAUTH_ISSUER_URL: process.env.OAUTH_ISSUER_URL,
+      OAUTH_INTROSPECTION_URL: process.env.OAUTH_INTROSPECTION_URL,
+      OAUTH_INTROSPECTION_CLIENT_ID: process.env.OAUTH_INTROSPECTION_CLIENT_ID,
+      OAUTH_INTROSPECTION_CLIENT_SECRET: process.env.OAUTH_INTROSPECTION_CLIENT_SECRET,
+      OAUTH_AUDIENCE: process.env.OAUTH_AUDIENCE,
+      MAX_SESSIONS: process.env.MAX_SESSIONS,
+      MAX_SESSIONS_PER_CLIENT: process.env.MAX_SESSIONS_PER_CLIENT,
+      SESSION_IDLE_TIMEOUT: process.env.SESSION_IDLE_TIMEOUT,
+      SHUTDOWN_TIMEOUT: process.env.SHUTDOWN_TIMEOUT,
     });
 
     logger.debug(`[CONFIG] Loaded | PORT=${config.PORT}, HOST=${config.HOST}, LOG_LEVEL=${config.LOG_LEVEL}`);
@@ -17,6 +17,37 @@ async function main() {
   
   // Criar e iniciar o servidor
   const server = new Server(config, SERVER_NAME, SERVER_VERSION, logger);
+
+  // Encerramento ordenado: as requisições em andamento terminam antes de o processo sair.
+  // Um segundo sinal encerra imediatamente.
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      logger.warn(`[SERVER] ${signal} received again, exiting immediately`);
+      process.exit(1);
+    }
+    shuttingDown = true;
+    logger.info(`[SERVER] ${signal} received`);
+
+    try {
+      await server.shutdown(parseInt(config.SHUTDOWN_TIMEOUT) * 1000);
+    } catch (error) {
+      logger.error('[SERVER] Error during shutdown:', error);
+      process.exitCode = 1;
+    }
+
+    await logger.close();
+    process.exit();
+  };
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  // No modo stdio o cliente MCP conversa pela entrada e saída padrão, sem o servidor HTTP
+  if (config.TRANSPORT === 'stdio') {
+    await server.startStdio();
+    return;
+  }
+
   await server.start(config.PORT, config.HOST);
 }
 
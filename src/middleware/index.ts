@@ -1,12 +1,14 @@
+import { AsyncResource } from 'async_hooks';
 import { Request, Response, NextFunction } from 'express';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { UserKeyStore } from '../auth/userKeys.js';
+import { RequestAuthenticator, AuthScope } from '../auth/requestAuth.js';
 import { ILogger } from '../utils/logger.js';
+import { newCorrelationId, runWithContext } from '../utils/requestContext.js';
 
 // Middleware to check if the MCP server is initialized
-export const checkMcpServerInitialized = (getMcpServer: () => McpServer | undefined) => {
+export const checkMcpServerInitialized = (isInitialized: () => boolean) => {
   return (req: Request, res: Response, next: NextFunction) => {
-    const mcpServer = getMcpServer();
-    if (!mcpServer) {
+    if (!isInitialized()) {
       res.status(401).json({
         error: {
           code: -32001,
@@ -22,11 +24,85 @@ export const checkMcpServerInitialized = (getMcpServer: () => McpServer | undefi
   };
 };
 
+// Middleware that requires a bearer API key or OAuth access token with the given scope.
+// The authenticated principal is stored in res.locals.principal.
+export const requireAuth = (authenticator: RequestAuthenticator, scope: AuthScope, logger: ILogger) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!authenticator.isEnabled()) {
+      next();
+      return;
+    }
+
+    const header = req.get('authorization');
+    const token = header?.match(/^Bearer\s+(.+)$/i)?.[1].trim();
+
+    if (!token) {
+      res.set('WWW-Authenticate', authenticator.getChallenge());
+      res.status(401).json({ error: 'invalid_token', error_description: 'Missing bearer token' });
+      return;
+    }
+
+    try {
+      const principal = await authenticator.authenticate(token);
+
+      if (!principal) {
+        logger.warn(`[AUTH] Invalid token | ${req.method} ${req.path} | IP: ${req.ip}`);
+        res.set('WWW-Authenticate', authenticator.getChallenge('invalid_token'));
+        res.status(401).json({ error: 'invalid_token', error_description: 'Invalid or expired token' });
+        return;
+      }
+
+      if (!principal.scopes.includes(scope)) {
+        logger.warn(`[AUTH] Insufficient scope | ${req.method} ${req.path} | Principal: ${principal.id} | Required: ${scope}`);
+        res.set('WWW-Authenticate', authenticator.getChallenge('insufficient_scope', scope));
+        res.status(403).json({ error: 'insufficient_scope', error_description: `The "${scope}" scope is required` });
+        return;
+      }
+
+      res.locals.principal = principal;
+      next();
+    } catch (error) {
+      logger.error('[AUTH] Error authenticating request:', error);
+      res.status(500).json({ error: 'server_error', error_description: 'Could not validate the token' });
+    }
+  };
+};
+
+// Middleware that identifies the user of a request by the key issued after authorization.
+// The key is read from the X-User-Key header, the "key" query parameter or, when the
+// endpoints are not protected by API keys or OAuth, the Authorization header (Bearer).
+export const requireUserKey = (userKeys: UserKeyStore, allowBearer = true) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get('authorization');
+    const key = req.get('x-user-key')
+      || (typeof req.query.key === 'string' ? req.query.key : undefined)
+      || (allowBearer && header?.startsWith('Bearer ') ? header.substring(7).trim() : undefined);
+
+    const user = key ? await userKeys.resolve(key) : null;
+    if (!user) {
+      res.status(401).json({
+        error: {
+          code: -32001,
+          message: "Missing or invalid user key. Please authenticate at /auth to get one.",
+          data: {
+            authUrl: `${req.protocol}://${req.get('host')}/auth`
+          }
+        }
+      });
+      return;
+    }
+
+    res.locals.user = user;
+    next();
+  };
+};
+
 // Middleware for CORS
 export const corsMiddleware = (req: Request, res: Response, next: NextFunction) => {
   res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
   res.header('Access-Control-Allow-Headers', '*');
+  res.header('Access-Control-Expose-Headers', `WWW-Authenticate, Mcp-Session-Id, ${CORRELATION_ID_HEADER}`);
 
   if (req.method === 'OPTIONS') {
     res.status(204).end();
@@ -36,72 +112,49 @@ export const corsMiddleware = (req: Request, res: Response, next: NextFunction)
   next();
 };
 
-// Middleware to log all requests and JSON data
+// Header with the correlation ID of a request, accepted from clients and proxies and returned in the response
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+const CORRELATION_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Middleware that runs each request with a correlation ID, added to every log it produces
+export const correlationMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  const received = req.get(CORRELATION_ID_HEADER) || req.get('x-request-id');
+  const correlationId = received && CORRELATION_ID_PATTERN.test(received) ? received : newCorrelationId();
+
+  res.set(CORRELATION_ID_HEADER, correlationId);
+  runWithContext({ correlationId }, next);
+};
+
+// Describes a JSON-RPC message by its method, and the tool name of tool calls
+const describeMessage = (message: any): string | undefined => {
+  if (!message || typeof message.method !== 'string') {
+    return undefined;
+  }
+  return message.method === 'tools/call' && typeof message.params?.name === 'string'
+    ? `${message.method} (${message.params.name})`
+    : message.method;
+};
+
+// Middleware to log requests. Bodies carry calendar content and credentials, so only the
+// JSON-RPC methods of MCP messages are logged.
 export const requestLoggerMiddleware = (logger: ILogger) => {
   return (req: Request, res: Response, next: NextFunction) => {
+    const startedAt = Date.now();
+
     // Log basic request information
     logger.debug(`[MIDDLEWARE] ${req.method} ${req.path} | IP: ${req.ip} | User-Agent: ${req.get('user-agent')}`);
 
-    // If it's a POST, PUT, or PATCH request, log the body
-    if (['POST', 'PUT', 'PATCH'].includes(req.method) && req.is('application/json')) {
-      try {
-        const bodyStr = JSON.stringify(req.body);
-        logger.debug(`[MIDDLEWARE] Data received ${req.method} ${req.path}: ${bodyStr.length > 2000 ? bodyStr.substring(0, 2000) + '... (truncated)' : bodyStr}`);
-      } catch (err) {
-        logger.debug(`[MIDDLEWARE] Data received could not be converted to string: ${err}`);
+    if (req.method === 'POST' && req.is('application/json')) {
+      const methods = (Array.isArray(req.body) ? req.body : [req.body]).map(describeMessage).filter(Boolean);
+      if (methods.length) {
+        logger.debug(`[MIDDLEWARE] JSON-RPC ${req.path}: ${methods.join(', ')}`);
       }
     }
 
-    // Capture and log the response (send, json, and write)
-    const originalSend = res.send;
-    const originalJson = res.json;
-    const originalWrite = res.write;
-
-    res.send = function(body: any): Response {
-      try {
-        logger.debug(`[MIDDLEWARE] Response sent ${req.method} ${req.path} | Status: ${res.statusCode} | Body: ${typeof body === 'string' ? (body.length > 1000 ? body.substring(0, 1000) + '... (truncated)' : body) : 'not a string'}`);
-      } catch (err) {
-        logger.debug(`[MIDDLEWARE] Error logging response send: ${err}`);
-      }
-      return originalSend.call(this, body);
-    };
-
-    res.json = function(body: any): Response {
-      try {
-        const responseStr = JSON.stringify(body);
-        logger.debug(`[MIDDLEWARE] JSON response ${req.method} ${req.path} | Status: ${res.statusCode} | Data: ${responseStr.length > 1000 ? responseStr.substring(0, 1000) + '... (truncated)' : responseStr}`);
-      } catch (err) {
-        logger.debug(`[MIDDLEWARE] JSON response could not be converted to string: ${err}`);
-      }
-      return originalJson.call(this, body);
-    };
-
-    // Capture and log data written with res.write
-    res.write = function(chunk: any): boolean {
-      try {
-        if (chunk) {
-          let content = chunk;
-          if (Buffer.isBuffer(chunk)) {
-            content = chunk.toString('utf8');
-          }
-
-          if (typeof content === 'string') {
-            logger.debug(`[MIDDLEWARE] Data written ${req.method} ${req.path} | Status: ${res.statusCode} | Content: ${content.length > 1000 ? content.substring(0, 1000) + '... (truncated)' : content}`);
-          } else if (content) {
-            logger.debug(`[MIDDLEWARE] Data written ${req.method} ${req.path} | Status: ${res.statusCode} | Type: ${typeof content} | Size: ${JSON.stringify(content).length} bytes`);
-          }
-        }
-      } catch (err) {
-        logger.debug(`[MIDDLEWARE] Error logging write data: ${err}`);
-      }
-
-      return originalWrite.apply(this, arguments as any);
-    };
-
-    // Log when the response is finished
-    res.on('finish', function() {
-      logger.debug(`[MIDDLEWARE] Response finished ${req.method} ${req.path} | Status: ${res.statusCode}`);
-    });
+    // Log when the response is finished, with the correlation ID of the request
+    res.on('finish', AsyncResource.bind(() => {
+      logger.debug(`[MIDDLEWARE] Response finished ${req.method} ${req.path} | Status: ${res.statusCode} | Duration: ${Date.now() - startedAt}ms`);
+    }));
 
     next();
   };
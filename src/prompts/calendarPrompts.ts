@@ -0,0 +1,234 @@
+import { z } from 'zod';
+import { calendar_v3 } from 'googleapis';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { GoogleCalendarService } from '../services/googleCalendar.js';
+import { getDayRange } from '../utils/availability.js';
+import { ILogger } from '../utils/logger.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Days searched for past occurrences of a meeting when preparing for it
+const MEETING_HISTORY_DAYS = 90;
+
+// Keeps only the event fields that matter to the model, to save context
+const summarizeEvent = (event: calendar_v3.Schema$Event) => ({
+  id: event.id,
+  summary: event.summary,
+  start: event.start?.dateTime || event.start?.date,
+  end: event.end?.dateTime || event.end?.date,
+  location: event.location,
+  description: event.description,
+  organizer: event.organizer?.email,
+  attendees: event.attendees?.map(attendee => ({
+    email: attendee.email,
+    responseStatus: attendee.responseStatus,
+    optional: attendee.optional || undefined
+  })),
+  meetLink: event.hangoutLink,
+  recurringEventId: event.recurringEventId
+});
+
+const userMessage = (text: string) => ({
+  role: 'user' as const,
+  content: { type: 'text' as const, text }
+});
+
+// Gets a day range in the calendar's time zone, from a YYYY-MM-DD date or today
+const resolveRange = async (
+  calendarService: GoogleCalendarService,
+  calendarId: string,
+  date: string | undefined,
+  days: number
+) => {
+  const calendar = await calendarService.getCalendar(calendarId);
+  const timeZone = calendar.timeZone || 'UTC';
+  const instant = date ? Date.parse(`${date}T12:00:00Z`) : Date.now();
+
+  if (isNaN(instant)) {
+    throw new Error(`Invalid date: ${date}. Use the YYYY-MM-DD format`);
+  }
+
+  return { timeZone, ...getDayRange(timeZone, instant, days) };
+};
+
+const listRange = async (
+  calendarService: GoogleCalendarService,
+  calendarId: string,
+  start: number,
+  end: number
+) => {
+  const events = await calendarService.listEvents({
+    calendarId,
+    timeMin: new Date(start).toISOString(),
+    timeMax: new Date(end).toISOString(),
+    singleEvents: true,
+    orderBy: 'startTime'
+  });
+
+  return (events.items || []).map(summarizeEvent);
+};
+
+export function registerCalendarPrompts(
+  server: McpServer,
+  calendarService: GoogleCalendarService,
+  logger: ILogger
+): void {
+  // Agenda of a day
+  server.prompt(
+    'dailyAgenda',
+    'Review the agenda of a day, with conflicts, preparation needs and free time',
+    {
+      calendarId: z.string().optional().describe('Calendar ID (default primary)'),
+      date: z.string().optional().describe('Day to review (YYYY-MM-DD, default today)')
+    },
+    async ({ calendarId = 'primary', date }) => {
+      try {
+        const range = await resolveRange(calendarService, calendarId, date, 1);
+        const events = await listRange(calendarService, calendarId, range.start, range.end);
+        const day = new Intl.DateTimeFormat('en-CA', { timeZone: range.timeZone }).format(range.start);
+
+        return {
+          description: `Agenda for ${day}`,
+          messages: [
+            userMessage(
+              `Here is my agenda for ${day} (time zone ${range.timeZone}):\n\n` +
+              `${JSON.stringify(events, null, 2)}\n\n` +
+              'Give me a short overview of my day in chronological order. Point out overlapping events, ' +
+              'meetings that need preparation or a response, and the free blocks I can use for focused work.'
+            )
+          ]
+        };
+      } catch (error) {
+        logger.error('[PROMPTS] Error building daily agenda:', error);
+        throw error;
+      }
+    }
+  );
+
+  // Review of the past week and the next one
+  server.prompt(
+    'weeklyReview',
+    'Review the past week and plan the next one',
+    {
+      calendarId: z.string().optional().describe('Calendar ID (default primary)'),
+      date: z.string().optional().describe('Day the review is made (YYYY-MM-DD, default today)')
+    },
+    async ({ calendarId = 'primary', date }) => {
+      try {
+        const range = await resolveRange(calendarService, calendarId, date, 1);
+        const pastEvents = await listRange(calendarService, calendarId, range.start - 7 * DAY, range.start);
+        const nextEvents = await listRange(calendarService, calendarId, range.start, range.start + 7 * DAY);
+
+        return {
+          description: 'Weekly review',
+          messages: [
+            userMessage(
+              `These are my events from the past 7 days (time zone ${range.timeZone}):\n\n` +
+              `${JSON.stringify(pastEvents, null, 2)}\n\n` +
+              `And these are my events for the next 7 days:\n\n` +
+              `${JSON.stringify(nextEvents, null, 2)}\n\n` +
+              'Write a weekly review: how my time was spent last week (meetings vs. free time, recurring ' +
+              'meetings, busiest days), and what the next week looks like, including overloaded days, ' +
+              'conflicts and meetings I should prepare for or reconsider.'
+            )
+          ]
+        };
+      } catch (error) {
+        logger.error('[PROMPTS] Error building weekly review:', error);
+        throw error;
+      }
+    }
+  );
+
+  // Preparation for a specific meeting
+  server.prompt(
+    'prepareForMeeting',
+    'Prepare for a meeting using its details and previous occurrences',
+    {
+      eventId: z.string().describe('Event ID of the meeting'),
+      calendarId: z.string().optional().describe('Calendar ID (default primary)')
+    },
+    async ({ eventId, calendarId = 'primary' }) => {
+      try {
+        const event = await calendarService.getEvent(calendarId, eventId);
+        const start = Date.parse(event.start?.dateTime || event.start?.date || '') || Date.now();
+
+        // Previous meetings with the same title give context on what was discussed before
+        let history: ReturnType<typeof summarizeEvent>[] = [];
+        if (event.summary) {
+          const previous = await calendarService.listEvents({
+            calendarId,
+            q: event.summary,
+            timeMin: new Date(start - MEETING_HISTORY_DAYS * DAY).toISOString(),
+            timeMax: new Date(start).toISOString(),
+            singleEvents: true,
+            orderBy: 'startTime'
+          });
+          history = (previous.items || []).filter(item => item.id !== event.id).map(summarizeEvent);
+        }
+
+        return {
+          description: `Preparation for ${event.summary || eventId}`,
+          messages: [
+            userMessage(
+              `Help me prepare for this meeting:\n\n${JSON.stringify(summarizeEvent(event), null, 2)}\n\n` +
+              `Previous meetings with the same title in the last ${MEETING_HISTORY_DAYS} days:\n\n` +
+              `${JSON.stringify(history, null, 2)}\n\n` +
+              'Summarize the purpose of the meeting, who is attending and who has not answered yet, ' +
+              'what I should review or bring, and suggest a short agenda and questions to ask.'
+            )
+          ]
+        };
+      } catch (error) {
+        logger.error(`[PROMPTS] Error preparing for meeting ${eventId}:`, error);
+        throw error;
+      }
+    }
+  );
+
+  // Scheduling of a new meeting
+  server.prompt(
+    'scheduleMeeting',
+    'Find a time that works for every attendee and schedule a meeting',
+    {
+      attendees: z.string().describe('Attendee emails, separated by commas'),
+      durationMinutes: z.string().optional().describe('Meeting duration in minutes (default 30)'),
+      purpose: z.string().optional().describe('Purpose of the meeting'),
+      calendarId: z.string().optional().describe('Calendar ID where the meeting is created (default primary)')
+    },
+    async ({ attendees, durationMinutes = '30', purpose, calendarId = 'primary' }) => {
+      try {
+        const emails = attendees.split(',').map(email => email.trim()).filter(Boolean);
+        const range = await resolveRange(calendarService, calendarId, undefined, 7);
+        const { slots, errors } = await calendarService.findAvailableSlots({
+          calendarIds: [calendarId, ...emails],
+          durationMinutes: parseInt(durationMinutes) || 30,
+          timeMin: new Date(Math.max(range.start, Date.now())).toISOString(),
+          timeMax: new Date(range.end).toISOString(),
+          timeZone: range.timeZone,
+          maxResults: 5
+        });
+
+        return {
+          description: `Scheduling ${purpose || 'a meeting'}`,
+          messages: [
+            userMessage(
+              `I want to schedule a ${durationMinutes}-minute meeting${purpose ? ` about "${purpose}"` : ''} ` +
+              `with ${emails.join(', ')} in calendar ${calendarId}.\n\n` +
+              `These are the best slots in the next 7 days when everyone is free (time zone ${range.timeZone}):\n\n` +
+              `${JSON.stringify(slots, null, 2)}\n\n` +
+              (Object.keys(errors).length
+                ? `Availability could not be checked for: ${Object.keys(errors).join(', ')}.\n\n`
+                : '') +
+              'Propose the best option with a short justification and a title and description for the invite. ' +
+              'Once I confirm, create the event with the createEvent tool and invite the attendees.'
+            )
+          ]
+        };
+      } catch (error) {
+        logger.error('[PROMPTS] Error building meeting scheduling prompt:', error);
+        throw error;
+      }
+    }
+  );
+}
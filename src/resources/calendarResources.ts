@@ -0,0 +1,161 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { GoogleCalendarService } from '../services/googleCalendar.js';
+import { getDayRange } from '../utils/availability.js';
+import { ILogger } from '../utils/logger.js';
+
+// URIs of the calendar resources
+export const CALENDARS_URI = 'gcal://calendars';
+export const AGENDA_TODAY_URI = 'gcal://agenda/today';
+
+export const calendarResourceUri = (calendarId: string): string =>
+  `${CALENDARS_URI}/${encodeURIComponent(calendarId)}`;
+
+export const eventResourceUri = (calendarId: string, eventId: string): string =>
+  `${calendarResourceUri(calendarId)}/events/${encodeURIComponent(eventId)}`;
+
+// Days of upcoming events included in a calendar resource
+const UPCOMING_DAYS = 7;
+
+const jsonContents = (uri: URL, data: unknown) => ({
+  contents: [
+    {
+      uri: uri.href,
+      mimeType: 'application/json',
+      text: JSON.stringify(data, null, 2)
+    }
+  ]
+});
+
+const variable = (value: string | string[]): string =>
+  decodeURIComponent(Array.isArray(value) ? value[0] : value);
+
+export function registerCalendarResources(
+  server: McpServer,
+  calendarService: GoogleCalendarService,
+  logger: ILogger,
+  subscriptions: Set<string>
+): void {
+  // Subscriptions are tracked per session so resources/updated only reaches interested clients
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    logger.debug(`[RESOURCES] Subscribed to ${request.params.uri}`);
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    logger.debug(`[RESOURCES] Unsubscribed from ${request.params.uri}`);
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // List of calendars
+  server.resource(
+    'calendars',
+    CALENDARS_URI,
+    { description: 'Calendars available to the authenticated account', mimeType: 'application/json' },
+    async (uri) => {
+      try {
+        const calendars = await calendarService.listCalendars();
+        return jsonContents(uri, calendars);
+      } catch (error) {
+        logger.error('[RESOURCES] Error reading calendars:', error);
+        throw error;
+      }
+    }
+  );
+
+  // Specific calendar with its upcoming events
+  server.resource(
+    'calendar',
+    new ResourceTemplate(`${CALENDARS_URI}/{calendarId}`, {
+      list: async () => {
+        try {
+          const calendars = await calendarService.listCalendars();
+          return {
+            resources: (calendars.items || []).map(calendar => ({
+              uri: calendarResourceUri(calendar.id!),
+              name: calendar.summaryOverride || calendar.summary || calendar.id!,
+              mimeType: 'application/json'
+            }))
+          };
+        } catch (error) {
+          // A failure here must not hide the static resources from resources/list
+          logger.error('[RESOURCES] Error listing calendar resources:', error);
+          return { resources: [] };
+        }
+      }
+    }),
+    { description: `Calendar details and its events for the next ${UPCOMING_DAYS} days`, mimeType: 'application/json' },
+    async (uri, variables) => {
+      const calendarId = variable(variables.calendarId);
+
+      try {
+        const calendar = await calendarService.getCalendar(calendarId);
+        const range = getDayRange(calendar.timeZone || 'UTC', Date.now(), UPCOMING_DAYS);
+        const events = await calendarService.listEvents({
+          calendarId,
+          timeMin: new Date(range.start).toISOString(),
+          timeMax: new Date(range.end).toISOString(),
+          singleEvents: true,
+          orderBy: 'startTime'
+        });
+
+        return jsonContents(uri, { calendar, upcomingEvents: events.items || [] });
+      } catch (error) {
+        logger.error(`[RESOURCES] Error reading calendar ${calendarId}:`, error);
+        throw error;
+      }
+    }
+  );
+
+  // Specific event
+  server.resource(
+    'event',
+    new ResourceTemplate(`${CALENDARS_URI}/{calendarId}/events/{eventId}`, { list: undefined }),
+    { description: 'Details of a calendar event', mimeType: 'application/json' },
+    async (uri, variables) => {
+      const calendarId = variable(variables.calendarId);
+      const eventId = variable(variables.eventId);
+
+      try {
+        const event = await calendarService.getEvent(calendarId, eventId);
+        return jsonContents(uri, event);
+      } catch (error) {
+        logger.error(`[RESOURCES] Error reading event ${eventId}:`, error);
+        throw error;
+      }
+    }
+  );
+
+  // Today's agenda of the primary calendar
+  server.resource(
+    'agenda-today',
+    AGENDA_TODAY_URI,
+    { description: "Today's events in the primary calendar", mimeType: 'application/json' },
+    async (uri) => {
+      try {
+        const calendar = await calendarService.getCalendar('primary');
+        const range = getDayRange(calendar.timeZone || 'UTC');
+        const events = await calendarService.listEvents({
+          calendarId: 'primary',
+          timeMin: new Date(range.start).toISOString(),
+          timeMax: new Date(range.end).toISOString(),
+          singleEvents: true,
+          orderBy: 'startTime'
+        });
+
+        return jsonContents(uri, {
+          date: new Intl.DateTimeFormat('en-CA', { timeZone: calendar.timeZone || 'UTC' }).format(range.start),
+          timeZone: calendar.timeZone,
+          events: events.items || []
+        });
+      } catch (error) {
+        logger.error('[RESOURCES] Error reading agenda:', error);
+        throw error;
+      }
+    }
+  );
+}
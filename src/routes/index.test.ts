@@ -0,0 +1,70 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { createRouter } from './index.js';
+import { AccountManager } from '../services/accountManager.js';
+import { CalendarWatch } from '../services/calendarWatch.js';
+import { Server } from '../server/server.js';
+import { SessionManager } from '../server/sessionManager.js';
+import { RequestAuthenticator } from '../auth/requestAuth.js';
+import { createTestLogger } from '../testing/logger.js';
+
+describe('admin session endpoints', () => {
+  let httpServer: http.Server;
+
+  // Only the admin routes are exercised, so the other dependencies of the router are left empty
+  const start = async (authenticator: RequestAuthenticator): Promise<string> => {
+    const logger = createTestLogger();
+    const sessions = new SessionManager({ maxSessions: 10, maxSessionsPerClient: 10, idleTimeout: 0 }, logger);
+
+    const app = express();
+    app.use('/', createRouter(
+      {} as Server,
+      {} as AccountManager,
+      {} as CalendarWatch,
+      sessions,
+      'test',
+      '1.0.0',
+      logger,
+      null,
+      authenticator
+    ));
+
+    httpServer = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => httpServer.once('listening', resolve));
+    return `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  };
+
+  afterEach(async () => {
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('are not available without endpoint authentication', async () => {
+    const logger = createTestLogger();
+    const baseUrl = await start(new RequestAuthenticator({ mode: 'none', resourceUrl: 'https://example.com' }, logger));
+
+    expect((await fetch(`${baseUrl}/admin/sessions`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/admin/sessions/session-1`, { method: 'DELETE' })).status).toBe(404);
+  });
+
+  it('require the admin scope with endpoint authentication', async () => {
+    const logger = createTestLogger();
+    const baseUrl = await start(new RequestAuthenticator({
+      mode: 'apiKey',
+      apiKeys: 'admin-key:admin,read-key:read',
+      resourceUrl: 'https://example.com'
+    }, logger));
+
+    const list = (key?: string) => fetch(`${baseUrl}/admin/sessions`, {
+      headers: key ? { authorization: `Bearer ${key}` } : {}
+    });
+
+    expect((await list()).status).toBe(401);
+    expect((await list('read-key')).status).toBe(403);
+
+    const response = await list('admin-key');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ sessions: [] });
+  });
+});
@@ -1,78 +1,251 @@
-import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { Router, Request, Response, NextFunction } from 'express';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import { GoogleCalendarService } from '../services/googleCalendar.js';
-import { checkMcpServerInitialized } from '../middleware/index.js';
-import { successTemplate, errorTemplate } from '../views/templates.js';
-import { Server } from '../server/server.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AccountManager, DEFAULT_ACCOUNT_ID } from '../services/accountManager.js';
+import { CalendarWatch } from '../services/calendarWatch.js';
+import { UserKeyStore } from '../auth/userKeys.js';
+import { RequestAuthenticator, Principal } from '../auth/requestAuth.js';
+import { AuthorizationError } from '../auth/authorizationFlow.js';
+import { checkMcpServerInitialized, requireAuth, requireUserKey } from '../middleware/index.js';
+import { successTemplate, errorTemplate, userKeyTemplate } from '../views/templates.js';
+import { Server, SessionOptions } from '../server/server.js';
+import { McpEventStore } from '../server/eventStore.js';
+import { SessionManager } from '../server/sessionManager.js';
+import { metricsRegistry } from '../utils/metrics.js';
 import { ILogger } from '../utils/logger.js';
 
+// Path that receives Google Calendar push notifications
+export const WEBHOOK_PATH = '/webhooks/calendar';
+
+// Messages of a Streamable HTTP session kept for clients that resume a stream
+const EVENT_STORE_MAX_EVENTS = 1000;
+const EVENT_STORE_TTL = 5 * 60 * 1000; // 5 minutes
+
+// Cookie that binds an OAuth authorization to the browser that started it
+const AUTH_STATE_COOKIE = 'gcal_auth_state';
+const AUTH_STATE_COOKIE_TTL = 10 * 60 * 1000; // 10 minutes, the lifetime of the OAuth state
+
+// Reads a cookie of the request. Only the OAuth flow uses cookies, so no cookie parser is installed.
+const getCookie = (req: Request, name: string): string | undefined => {
+  for (const cookie of (req.get('cookie') ?? '').split(';')) {
+    const [key, ...value] = cookie.trim().split('=');
+    if (key === name) {
+      return value.join('=');
+    }
+  }
+  return undefined;
+};
+
+// JSON-RPC error response of the Streamable HTTP endpoint
+const jsonRpcError = (res: Response, status: number, message: string) => {
+  res.status(status).json({ jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+};
+
 export const createRouter = (
   server: Server,
-  calendarService: GoogleCalendarService,
-  transports: { [sessionId: string]: SSEServerTransport },
+  accounts: AccountManager,
+  calendarWatch: CalendarWatch,
+  sessions: SessionManager,
   serverName: string,
   serverVersion: string,
   logger: ILogger,
-  heartbeatIntervals: { [sessionId: string]: NodeJS.Timeout }
+  userKeys: UserKeyStore | null,
+  authenticator: RequestAuthenticator
 ) => {
   const router = Router();
 
+  // In multi-tenant mode the session and revoke endpoints identify the user by key.
+  // The Authorization header is left to API keys and OAuth tokens when they are enabled.
+  const identifyUser = userKeys
+    ? requireUserKey(userKeys, !authenticator.isEnabled())
+    : (req: Request, res: Response, next: NextFunction) => next();
+
+  // Clients without the write scope get a read-only session. Only admins may impersonate users,
+  // so anonymous clients (endpoint authentication disabled) never can.
+  const getSessionOptions = (res: Response): SessionOptions => {
+    const principal: Principal | undefined = res.locals.principal;
+    return {
+      userAccountId: res.locals.user?.accountId,
+      readOnly: principal ? !principal.scopes.includes('write') : false,
+      admin: principal ? principal.scopes.includes('admin') : false
+    };
+  };
+
+  // Checks that a request to an open session comes from the client that opened it
+  const isSessionOwner = (sessionId: string, res: Response): boolean => {
+    const principal: Principal | undefined = res.locals.principal;
+    return sessions.isOwner(sessionId, principal?.id, res.locals.user?.accountId);
+  };
+
+  // OAuth discovery documents for MCP clients (resource-server mode)
+  if (authenticator.getMode() === 'oauth') {
+    router.get('/.well-known/oauth-protected-resource', (req: Request, res: Response) => {
+      res.json(authenticator.getResourceMetadata());
+    });
+
+    router.get('/.well-known/oauth-authorization-server', async (req: Request, res: Response) => {
+      try {
+        res.json(await authenticator.getAuthorizationServerMetadata());
+      } catch (error) {
+        logger.error('[ROUTES] Error loading authorization server metadata:', error);
+        res.status(502).json({ error: 'server_error', error_description: 'Authorization server metadata unavailable' });
+      }
+    });
+  }
+
   // Health endpoint
   router.get('/health', async (req: Request, res: Response) => {
-    const isAuthenticated = await calendarService.isAuthenticated();
+    const isAuthenticated = await accounts.get().isAuthenticated();
+    // Load balancers stop routing new clients to a server that is shutting down
+    const isShuttingDown = sessions.isClosing();
     const responseData = {
-      status: 'ok',
+      status: isShuttingDown ? 'shutting_down' : 'ok',
       server: serverName,
       version: serverVersion,
-      authenticated: isAuthenticated
+      authenticated: isAuthenticated,
+      // Accounts of other users are not disclosed in multi-tenant mode
+      accounts: userKeys ? undefined : await accounts.listAccounts()
     };
 
-    res.status(200).json(responseData);
+    res.status(isShuttingDown ? 503 : 200).json(responseData);
+  });
+
+  // Prometheus metrics of tool calls, Google API requests, sessions and tokens
+  router.get('/metrics', requireAuth(authenticator, 'admin', logger), async (req: Request, res: Response) => {
+    try {
+      res.set('Content-Type', metricsRegistry.contentType);
+      res.send(await metricsRegistry.metrics());
+    } catch (error) {
+      logger.error('[ROUTES] Error collecting metrics:', error);
+      res.status(500).end();
+    }
+  });
+
+  // Redirects the browser to Google, keeping the key that binds the authorization to it in a cookie
+  const redirectToAuthorization = async (req: Request, res: Response, accountId: string) => {
+    const { url, browserKey } = await accounts.startBrowserAuthorization(accountId);
+    res.cookie(AUTH_STATE_COOKIE, browserKey, {
+      httpOnly: true,
+      secure: req.secure,
+      sameSite: 'lax', // sent on the redirect back from Google
+      maxAge: AUTH_STATE_COOKIE_TTL
+    });
+    res.redirect(url);
+  };
+
+  const sendAuthorizationError = (res: Response, error: unknown) => {
+    if (error instanceof AuthorizationError) {
+      res.status(error.status).send(errorTemplate(error.message));
+      return;
+    }
+
+    logger.error('[ROUTES] Error starting OAuth authorization:', error);
+    res.status(500).send(errorTemplate('Error starting authorization. Please try again later'));
+  };
+
+  // Endpoint to start OAuth authorization flow, optionally linking a named account (?account=work)
+  // When the endpoints are protected, linking a shared account requires the admin scope. Browsers do
+  // not send bearer tokens, so the response is then a single-use link to open in the browser.
+  // In multi-tenant mode each user links an account of their own, so no scope is required.
+  const requireAuthAdmin = userKeys ? [] : [requireAuth(authenticator, 'admin', logger)];
+  router.get('/auth', requireAuthAdmin, async (req: Request, res: Response) => {
+    const accountId = typeof req.query.account === 'string' ? req.query.account : DEFAULT_ACCOUNT_ID;
+
+    if (!accounts.isValidAccountId(accountId)) {
+      res.status(400).send(errorTemplate('Invalid account ID. Use up to 64 letters, digits, hyphens or underscores'));
+      return;
+    }
+
+    try {
+      if (authenticator.isEnabled() && !userKeys) {
+        const ticket = accounts.createAuthTicket(accountId);
+        res.json({ authUrl: `${req.protocol}://${req.get('host')}/auth/start?ticket=${ticket}` });
+        return;
+      }
+
+      await redirectToAuthorization(req, res, accountId);
+    } catch (error) {
+      sendAuthorizationError(res, error);
+    }
   });
 
-  // Endpoint to start OAuth authorization flow
-  router.get('/auth', (req: Request, res: Response) => {
-    const authUrl = calendarService.getAuthUrl();
-    res.redirect(authUrl);
+  // Opens the single-use link returned by /auth in the browser that will authorize the account
+  router.get('/auth/start', async (req: Request, res: Response) => {
+    const accountId = typeof req.query.ticket === 'string' ? accounts.redeemAuthTicket(req.query.ticket) : null;
+
+    if (!accountId) {
+      res.status(400).send(errorTemplate('Invalid, used or expired authorization link. Please request a new one at /auth'));
+      return;
+    }
+
+    try {
+      await redirectToAuthorization(req, res, accountId);
+    } catch (error) {
+      sendAuthorizationError(res, error);
+    }
   });
 
   // Callback endpoint to receive the OAuth authorization code
   router.get('/oauth/callback', async (req: Request, res: Response) => {
-    const { code } = req.query;
+    const { code, state } = req.query;
 
     if (!code || typeof code !== 'string') {
       res.status(400).send(errorTemplate('Missing or invalid authorization code'));
       return;
     }
 
+    // The signed state identifies the flow started at /auth and the account being linked
+    if (!state || typeof state !== 'string') {
+      res.status(400).send(errorTemplate('Missing authorization state. Please start again at /auth'));
+      return;
+    }
+
+    // The authorization must be completed by the browser that started it
+    const browserKey = getCookie(req, AUTH_STATE_COOKIE);
+    res.clearCookie(AUTH_STATE_COOKIE, { httpOnly: true, secure: req.secure, sameSite: 'lax' });
+
     try {
-      // Process the authorization code
-      await calendarService.handleAuthCode(code);
+      // Each user gets an account of their own and a key that ties their sessions to it
+      if (userKeys) {
+        const user = await accounts.linkUser(code, state, browserKey);
+        const key = await userKeys.issue(user);
+        logger.info(`[ROUTES] User authorized | Account: ${user.accountId}`);
+        res.send(userKeyTemplate(user.email, key, `${req.protocol}://${req.get('host')}/sse`));
+        return;
+      }
 
-      // Initialize the Calendar service
-      const isInitialized = await calendarService.initialize();
-      if (isInitialized) {
-        logger.info('[ROUTES] Google Calendar successfully initialized');
+      const accountId = await accounts.linkAccount(code, state, browserKey);
+      logger.info(`[ROUTES] Google Calendar successfully initialized | Account: ${accountId}`);
 
-        // Initialize the MCP server
-        await server.initializeMcpServer();
-        logger.info('[ROUTES] MCP server successfully initialized');
+      // Initialize the MCP server
+      await server.initializeMcpServer();
+      logger.info('[ROUTES] MCP server successfully initialized');
 
-        res.send(successTemplate);
-      } else {
-        res.status(500).send(errorTemplate('Failed to initialize Google Calendar service'));
-      }
+      res.send(successTemplate);
     } catch (error) {
+      if (error instanceof AuthorizationError) {
+        logger.warn(`[ROUTES] OAuth authorization rejected: ${error.message}`);
+        res.status(error.status).send(errorTemplate(error.message));
+        return;
+      }
+
       logger.error('[ROUTES] Error during OAuth authorization:', error);
-      res.status(500).send(errorTemplate(`Error during authorization: ${error}`));
+      res.status(500).send(errorTemplate('Error during authorization. Please try again later'));
     }
   });
 
-  // Endpoint to revoke access
-  router.post('/revoke', async (req: Request, res: Response) => {
+  // Endpoint to revoke access of an account (?account=work, default account when omitted)
+  // In multi-tenant mode it revokes the account of the user who owns the key
+  router.post('/revoke', requireAuth(authenticator, userKeys ? 'read' : 'admin', logger), identifyUser, async (req: Request, res: Response) => {
+    const accountId = res.locals.user?.accountId
+      || (typeof req.query.account === 'string' ? req.query.account : DEFAULT_ACCOUNT_ID);
+
     try {
-      await calendarService.revokeAccess();
+      await accounts.revoke(accountId);
+      await userKeys?.revoke(accountId);
       res.status(200).json({ success: true, message: 'Access successfully revoked' });
     } catch (error) {
       logger.error('[ROUTES] Error revoking access:', error);
@@ -80,60 +253,83 @@ export const createRouter = (
     }
   });
 
+  // Endpoint that receives Google Calendar push notifications
+  router.post(WEBHOOK_PATH, (req: Request, res: Response) => {
+    const result = calendarWatch.handleNotification(req.headers);
+
+    switch (result) {
+      case 'accepted':
+        res.status(200).end();
+        break;
+      case 'invalidToken':
+        res.status(403).end();
+        break;
+      default:
+        res.status(404).end();
+    }
+  });
+
   // SSE endpoint for events
-  router.get('/sse', checkMcpServerInitialized(() => server.getMcpServer()), async (req: Request, res: Response) => {
+  router.get('/sse', requireAuth(authenticator, 'read', logger), checkMcpServerInitialized(() => server.isMcpServerInitialized()), identifyUser, async (req: Request, res: Response) => {
+    const principal: Principal | undefined = res.locals.principal;
+
+    const limitReason = sessions.checkCapacity(principal?.id, req.ip);
+    if (limitReason) {
+      logger.warn(`[ROUTES] SSE connection rejected: ${limitReason} | IP: ${req.ip}`);
+      res.status(503).json({ error: 'too_many_sessions', error_description: limitReason });
+      return;
+    }
+
     try {
-      const transport = new SSEServerTransport('/messages', res);
+      // A user key given in the URL is passed on to the message endpoint, which also requires it
+      const messagesPath = userKeys && typeof req.query.key === 'string'
+        ? `/messages?key=${encodeURIComponent(req.query.key)}`
+        : '/messages';
+      const transport = new SSEServerTransport(messagesPath, res);
       const transportId = transport.sessionId;
-      transports[transportId] = transport;
 
       logger.debug(`[ROUTES] SSE connection established | SessionID: ${transportId}`);
 
       res.on('close', () => {
         logger.debug(`[ROUTES] SSE connection closed | SessionID: ${transportId}`);
-
-        // Clear the heartbeat
-        if (heartbeatIntervals[transportId]) {
-          clearInterval(heartbeatIntervals[transportId]);
-          delete heartbeatIntervals[transportId];
-          logger.debug(`[ROUTES] SSE heartbeat stopped | SessionID: ${transportId}`);
-        }
-
-        delete transports[transportId];
+        sessions.remove(transportId);
       });
 
       res.on('error', (err) => {
         logger.error(`[ROUTES] SSE connection error | SessionID: ${transportId}:`, err);
-        if (heartbeatIntervals[transportId]) {
-          clearInterval(heartbeatIntervals[transportId]);
-          delete heartbeatIntervals[transportId];
-        }
-        delete transports[transportId];
+        sessions.remove(transportId);
       });
 
-      const mcpServer: McpServer | undefined = server.getMcpServer();
-      if (mcpServer) {
-        await mcpServer.connect(transport);
-        logger.debug(`[ROUTES] MCP connected to transport | SessionID: ${transportId}`);
-      }
+      const options = getSessionOptions(res);
+      const mcpServer: McpServer = server.createSessionServer(transportId, options);
+      await mcpServer.connect(transport);
+      sessions.add(transportId, {
+        transport,
+        mcpServer,
+        type: 'sse',
+        accountId: options.userAccountId,
+        principalId: principal?.id,
+        remoteAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
+      logger.debug(`[ROUTES] MCP connected to transport | SessionID: ${transportId}`);
 
       // Set up a heartbeat every 10 seconds to keep the connection alive
-      heartbeatIntervals[transportId] = setInterval(() => {
+      const heartbeat = setInterval(() => {
         try {
           if (res.writable) {
             res.write(`: heartbeat ${Date.now()}\n\n`);
             logger.debug(`[ROUTES] SSE heartbeat sent | SessionID: ${transportId}`);
           } else {
-            clearInterval(heartbeatIntervals[transportId]);
-            delete heartbeatIntervals[transportId];
+            clearInterval(heartbeat);
             logger.debug(`[ROUTES] SSE connection is no longer writable, heartbeat stopped | SessionID: ${transportId}`);
           }
         } catch (err) {
           logger.error(`[ROUTES] Error sending SSE heartbeat | SessionID: ${transportId}:`, err);
-          clearInterval(heartbeatIntervals[transportId]);
-          delete heartbeatIntervals[transportId];
+          clearInterval(heartbeat);
         }
       }, 10000); // 10 seconds
+      sessions.setHeartbeat(transportId, heartbeat);
     } catch (error) {
       logger.error('[ROUTES] Error in SSE connection:', error);
       res.status(500).end();
@@ -141,11 +337,19 @@ export const createRouter = (
   });
 
   // Endpoint for messages
-  router.post('/messages', async (req: Request, res: Response) => {
+  router.post('/messages', requireAuth(authenticator, 'read', logger), identifyUser, async (req: Request, res: Response) => {
     const sessionId = req.query.sessionId as string;
-    const transport = transports[sessionId];
+    const sessionTransport = sessions.getTransport(sessionId);
+    const transport = sessionTransport instanceof SSEServerTransport ? sessionTransport : undefined;
+
+    if (transport && !isSessionOwner(sessionId, res)) {
+      logger.warn(`[ROUTES] Message rejected, session belongs to another client | SessionID: ${sessionId}`);
+      res.status(403).json({ error: 'forbidden', error_description: 'The session belongs to another client' });
+      return;
+    }
 
     if (transport) {
+      sessions.touch(sessionId);
       try {
         await transport.handlePostMessage(req, res, req.body);
         logger.debug(`[ROUTES] Message processed | SessionID: ${sessionId}`);
@@ -158,5 +362,124 @@ export const createRouter = (
     }
   });
 
+  // Streamable HTTP endpoint: POST sends messages, GET opens a stream for server messages
+  // (resumable with Last-Event-ID) and DELETE ends the session
+  const handleMcpRequest = async (req: Request, res: Response) => {
+    const sessionId = req.get('mcp-session-id');
+    const principal: Principal | undefined = res.locals.principal;
+
+    try {
+      if (sessionId) {
+        const transport = sessions.getTransport(sessionId);
+
+        if (!(transport instanceof StreamableHTTPServerTransport)) {
+          logger.debug(`[ROUTES] Error: Invalid SessionID: ${sessionId}`);
+          jsonRpcError(res, 404, 'Session not found');
+          return;
+        }
+
+        if (!isSessionOwner(sessionId, res)) {
+          logger.warn(`[ROUTES] Request rejected, session belongs to another client | SessionID: ${sessionId}`);
+          jsonRpcError(res, 403, 'The session belongs to another client');
+          return;
+        }
+
+        sessions.touch(sessionId);
+
+        await transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+        jsonRpcError(res, 400, 'Bad Request: missing Mcp-Session-Id header');
+        return;
+      }
+
+      const limitReason = sessions.checkCapacity(principal?.id, req.ip);
+      if (limitReason) {
+        logger.warn(`[ROUTES] Streamable HTTP session rejected: ${limitReason} | IP: ${req.ip}`);
+        jsonRpcError(res, 503, limitReason);
+        return;
+      }
+
+      // The session ID is known up front so the session's MCP server can be created before the handshake
+      const newSessionId = crypto.randomUUID();
+      const options = getSessionOptions(res);
+      const mcpServer: McpServer = server.createSessionServer(newSessionId, options);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => newSessionId,
+        eventStore: new McpEventStore({ maxEvents: EVENT_STORE_MAX_EVENTS, ttl: EVENT_STORE_TTL }),
+        onsessioninitialized: (id) => {
+          sessions.add(id, {
+            transport,
+            mcpServer,
+            type: 'streamableHttp',
+            accountId: options.userAccountId,
+            principalId: principal?.id,
+            remoteAddress: req.ip,
+            userAgent: req.get('user-agent')
+          });
+          logger.debug(`[ROUTES] Streamable HTTP session initialized | SessionID: ${id}`);
+        },
+        onsessionclosed: (id) => {
+          logger.debug(`[ROUTES] Streamable HTTP session deleted by client | SessionID: ${id}`);
+        }
+      });
+
+      transport.onclose = () => {
+        sessions.remove(newSessionId);
+        logger.debug(`[ROUTES] Streamable HTTP session closed | SessionID: ${newSessionId}`);
+      };
+      transport.onerror = (error) => {
+        logger.error(`[ROUTES] Streamable HTTP transport error | SessionID: ${newSessionId}:`, error);
+      };
+
+      await mcpServer.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+
+      // A rejected initialization leaves no session behind
+      if (!transport.sessionId) {
+        server.closeSession(newSessionId);
+      }
+    } catch (error) {
+      logger.error('[ROUTES] Error handling Streamable HTTP request:', error);
+      if (!res.headersSent) {
+        jsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  };
+
+  const mcpMiddlewares = [
+    requireAuth(authenticator, 'read', logger),
+    checkMcpServerInitialized(() => server.isMcpServerInitialized()),
+    identifyUser
+  ];
+  router.post('/mcp', ...mcpMiddlewares, handleMcpRequest);
+  router.get('/mcp', ...mcpMiddlewares, handleMcpRequest);
+  router.delete('/mcp', ...mcpMiddlewares, handleMcpRequest);
+
+  // Admin endpoints to inspect and close MCP sessions. They are only available with endpoint
+  // authentication, since anyone who can reach the server could otherwise close the sessions of others.
+  if (authenticator.isEnabled()) {
+    router.get('/admin/sessions', requireAuth(authenticator, 'admin', logger), (req: Request, res: Response) => {
+      res.status(200).json({ sessions: sessions.list() });
+    });
+
+    router.delete('/admin/sessions/:sessionId', requireAuth(authenticator, 'admin', logger), async (req: Request, res: Response) => {
+      const sessionId = req.params.sessionId as string;
+
+      try {
+        if (!(await sessions.close(sessionId, 'closed by admin'))) {
+          res.status(404).json({ success: false, message: `Session not found: ${sessionId}` });
+          return;
+        }
+        res.status(200).json({ success: true, message: 'Session successfully closed' });
+      } catch (error) {
+        logger.error(`[ROUTES] Error closing session | SessionID: ${sessionId}:`, error);
+        res.status(500).json({ success: false, message: `Error closing session: ${error}` });
+      }
+    });
+  }
+
   return router;
 };
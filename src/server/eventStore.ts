@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+interface McpEventStoreConfig {
+  maxEvents: number; // events kept for replay, the oldest are dropped first
+  ttl: number; // in milliseconds
+}
+
+interface StoredEvent {
+  streamId: StreamId;
+  message: JSONRPCMessage;
+  storedAt: number;
+}
+
+/**
+ * Keeps the last messages sent on the streams of a Streamable HTTP session, so a client that
+ * reconnects with Last-Event-ID receives what it missed. Each session has its own store.
+ */
+export class McpEventStore implements EventStore {
+  private config: McpEventStoreConfig;
+  // Maps keep insertion order, which is the order the events were sent
+  private events = new Map<EventId, StoredEvent>();
+
+  constructor(config: McpEventStoreConfig) {
+    this.config = config;
+  }
+
+  public async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${crypto.randomBytes(8).toString('hex')}`;
+    this.events.set(eventId, { streamId, message, storedAt: Date.now() });
+    this.prune();
+    return eventId;
+  }
+
+  public async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const lastEvent = this.events.get(lastEventId);
+    if (!lastEvent) {
+      throw new Error(`Event ${lastEventId} is no longer available for replay`);
+    }
+
+    let found = false;
+    for (const [eventId, event] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+      } else if (found && event.streamId === lastEvent.streamId) {
+        await send(eventId, event.message);
+      }
+    }
+
+    return lastEvent.streamId;
+  }
+
+  private prune(): void {
+    const expiredBefore = Date.now() - this.config.ttl;
+    for (const [eventId, event] of this.events) {
+      if (this.events.size <= this.config.maxEvents && event.storedAt >= expiredBefore) {
+        break;
+      }
+      this.events.delete(eventId);
+    }
+  }
+}
@@ -1,24 +1,65 @@
 import express from 'express';
+import http from 'http';
 import path from 'path';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import { TokenManager } from '../auth/tokenManager.js';
-import { OAuthHandler } from '../auth/oauthHandler.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { GoogleCalendarService } from '../services/googleCalendar.js';
+import { AccountManager, DEFAULT_ACCOUNT_ID } from '../services/accountManager.js';
+import { UserKeyStore } from '../auth/userKeys.js';
+import { RequestAuthenticator, AuthMode } from '../auth/requestAuth.js';
+import { TokenStoreType } from '../auth/tokenStore.js';
+import { listenForAuthorization } from '../auth/localCallback.js';
+import { CalendarWatch, CalendarChange } from '../services/calendarWatch.js';
 import { registerCalendarTools } from '../tools/calendarTools.js';
-import { corsMiddleware, requestLoggerMiddleware } from '../middleware/index.js';
-import { createRouter } from '../routes/index.js';
+import {
+  registerCalendarResources,
+  calendarResourceUri,
+  eventResourceUri,
+  CALENDARS_URI,
+  AGENDA_TODAY_URI
+} from '../resources/calendarResources.js';
+import { registerCalendarPrompts } from '../prompts/calendarPrompts.js';
+import { corsMiddleware, correlationMiddleware, requestLoggerMiddleware } from '../middleware/index.js';
+import { createRouter, WEBHOOK_PATH } from '../routes/index.js';
+import { SessionManager } from './sessionManager.js';
 import { Config, buildBaseUrl } from '../config/config.js';
 import { ILogger } from '../utils/logger.js';
 
+// Splits a comma separated config value, ignoring empty items
+const splitList = (value: string = ''): string[] =>
+  value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+
+// Options of an MCP session
+export interface SessionOptions {
+  userAccountId?: string; // account of the session's user in multi-tenant mode
+  readOnly?: boolean;     // clients without the write scope cannot change calendars
+  admin?: boolean;        // clients with the admin scope can impersonate Workspace users
+}
+
+// Session of the single client served over stdio
+const STDIO_SESSION_ID = 'stdio';
+
+// Time a stdio run waits for the OAuth authorization in the browser
+const LOCAL_AUTHORIZATION_TIMEOUT = 10 * 60 * 1000; // 10 minutes
+
+// MCP notification sent to clients when a watched calendar changes
+const CALENDAR_CHANGED_NOTIFICATION = 'notifications/calendar/changed';
+
 export class Server {
   private app: express.Application;
-  private mcpServer: McpServer | undefined;
+  private httpServer: http.Server | null = null;
+  private mcpInitialized = false;
+  private sessions: SessionManager;
+  private resourceSubscriptions: { [sessionId: string]: Set<string> } = {};
+  private accounts: AccountManager;
   private calendarService: GoogleCalendarService;
-  private transports: { [sessionId: string]: SSEServerTransport } = {};
-  private heartbeatIntervals: { [sessionId: string]: NodeJS.Timeout } = {};
+  private calendarWatch: CalendarWatch;
+  private userKeys: UserKeyStore | null = null;
+  private authenticator: RequestAuthenticator;
   private readonly serverName: string;
   private readonly serverVersion: string;
+  private readonly baseUrl: string;
+  private readonly redirectUri: string;
   private logger: ILogger;
 
   constructor(config: Config, serverName: string, serverVersion: string, logger: ILogger) {
@@ -29,47 +70,132 @@ export class Server {
 
     this.logger.debug(`[INIT] Server ${serverName} v${serverVersion} | Configurations: PORT=${config.PORT}, HOST=${config.HOST}, URL=${config.PUBLIC_URL || 'not defined'}`);
 
-    // Configure the token manager
-    const tokenManager = new TokenManager({
-      tokenStoragePath: path.join(process.cwd(), 'data', 'tokens.json'),
-      tokenRefreshInterval: 30 * 60 * 1000, // 30 minutes
-    }, this.logger);
-
-    // Configure the OAuth handler
+    // Configure the OAuth settings shared by every linked account
     const baseUrl = buildBaseUrl(config);
     const redirectPath = config.OAUTH_REDIRECT_PATH.startsWith('/')
       ? config.OAUTH_REDIRECT_PATH
       : `/${config.OAUTH_REDIRECT_PATH}`;
 
     const redirectUri = `${baseUrl}${redirectPath}`;
+    this.baseUrl = baseUrl;
+    this.redirectUri = redirectUri;
 
-    this.logger.debug(`[OAUTH] Configuring handler with URI=${redirectUri} and scopes=["calendar", "calendar.events"]`);
+    this.logger.debug(`[OAUTH] Configuring handler with URI=${redirectUri} and scopes=["calendar", "calendar.events", "openid", "email"]`);
+
+    // Configure the linked Google accounts, each with its own tokens and event cache
+    this.accounts = new AccountManager({
+      oauth: {
+        clientId: config.GOOGLE_CLIENT_ID,
+        clientSecret: config.GOOGLE_CLIENT_SECRET,
+        redirectUri,
+        scopes: [
+          'https://www.googleapis.com/auth/calendar',
+          'https://www.googleapis.com/auth/calendar.events',
+          // Identify the Google user, so the linked accounts can be restricted
+          'openid',
+          'email'
+        ],
+      },
+      authorization: {
+        stateSecret: config.OAUTH_STATE_SECRET,
+        stateTtl: 10 * 60 * 1000, // 10 minutes
+        allowedEmails: splitList(config.OAUTH_ALLOWED_EMAILS),
+        allowedDomains: splitList(config.OAUTH_ALLOWED_DOMAINS),
+      },
+      encryption: {
+        keys: config.TOKEN_ENCRYPTION_KEY,
+        keyFile: config.TOKEN_ENCRYPTION_KEY_FILE,
+      },
+      tokenStore: {
+        type: config.TOKEN_STORE as TokenStoreType,
+        path: config.TOKEN_STORE_PATH,
+        tokens: config.GOOGLE_TOKENS,
+      },
+      serviceAccount: config.GOOGLE_AUTH_MODE === 'serviceAccount' ? {
+        keyFile: config.GOOGLE_SERVICE_ACCOUNT_KEY_FILE,
+        key: config.GOOGLE_SERVICE_ACCOUNT_KEY,
+        subject: config.GOOGLE_IMPERSONATE_USER,
+        scopes: [
+          'https://www.googleapis.com/auth/calendar',
+          'https://www.googleapis.com/auth/calendar.events'
+        ],
+      } : undefined,
+      impersonationAllowed: splitList(config.GOOGLE_IMPERSONATE_ALLOWED),
+      requests: {
+        maxRetries: parseInt(config.GOOGLE_MAX_RETRIES),
+        retryBaseDelay: parseInt(config.GOOGLE_RETRY_BASE_DELAY),
+        retryMaxDelay: parseInt(config.GOOGLE_RETRY_MAX_DELAY),
+        rateLimit: parseFloat(config.GOOGLE_RATE_LIMIT),
+        rateBurst: parseInt(config.GOOGLE_RATE_BURST),
+      },
+      storageDir: path.join(process.cwd(), 'data'),
+      tokenRefreshInterval: 30 * 60 * 1000, // 30 minutes
+      cacheTtl: parseInt(config.EVENT_CACHE_TTL) * 1000,
+    }, this.logger);
+
+    // Resources, prompts and push notifications use the default account
+    this.calendarService = this.accounts.get();
+
+    // In multi-tenant mode each session is tied to the user who authorized it
+    if (config.MULTI_TENANT === 'true') {
+      this.logger.info('[INIT] Multi-tenant mode: sessions run as their own Google user');
+      this.userKeys = new UserKeyStore({
+        storagePath: path.join(process.cwd(), 'data', 'user-keys.json'),
+      }, this.logger);
+    }
+
+    // Configure the authentication of the MCP endpoints
+    this.authenticator = new RequestAuthenticator({
+      mode: config.AUTH_MODE as AuthMode,
+      apiKeys: config.API_KEYS,
+      resourceUrl: baseUrl,
+      oauth: config.OAUTH_ISSUER_URL ? {
+        issuerUrl: config.OAUTH_ISSUER_URL,
+        introspectionUrl: config.OAUTH_INTROSPECTION_URL,
+        clientId: config.OAUTH_INTROSPECTION_CLIENT_ID,
+        clientSecret: config.OAUTH_INTROSPECTION_CLIENT_SECRET,
+        audience: config.OAUTH_AUDIENCE,
+      } : undefined,
+    }, this.logger);
 
-    const oauthHandler = new OAuthHandler({
-      clientId: config.GOOGLE_CLIENT_ID,
-      clientSecret: config.GOOGLE_CLIENT_SECRET,
-      redirectUri,
-      scopes: [
-        'https://www.googleapis.com/auth/calendar',
-        'https://www.googleapis.com/auth/calendar.events'
-      ],
-    }, tokenManager, this.logger);
+    // Configure push notifications for the watched calendars
+    this.calendarWatch = new CalendarWatch({
+      calendarIds: config.WATCH_CALENDAR_IDS.split(',').map(id => id.trim()).filter(Boolean),
+      webhookUrl: `${baseUrl}${WEBHOOK_PATH}`,
+      channelStoragePath: path.join(process.cwd(), 'data', 'watch-channels.json'),
+      channelTtl: parseInt(config.WATCH_CHANNEL_TTL),
+      channelToken: config.WATCH_CHANNEL_TOKEN,
+    }, this.calendarService, this.logger);
+    this.calendarWatch.onChange(change => this.notifyCalendarChange(change));
+    this.accounts.onEventsChanged((accountId, calendarId, eventIds) => {
+      this.notifyResourcesUpdated(accountId, calendarId, eventIds).catch(error => {
+        this.logger.error('[MCP] Error notifying resource updates:', error);
+      });
+    });
 
-    // Initialize the Google Calendar service
-    this.calendarService = new GoogleCalendarService(oauthHandler, tokenManager, this.logger);
+    // Configure the limits and expiry of MCP sessions
+    this.sessions = new SessionManager({
+      maxSessions: parseInt(config.MAX_SESSIONS),
+      maxSessionsPerClient: parseInt(config.MAX_SESSIONS_PER_CLIENT),
+      idleTimeout: parseInt(config.SESSION_IDLE_TIMEOUT) * 1000,
+    }, this.logger);
+    this.sessions.onRemoved(sessionId => this.closeSession(sessionId));
 
     // Configure middlewares and routes
     this.app.use(express.json());
     this.app.use(corsMiddleware);
+    this.app.use(correlationMiddleware);
     this.app.use(requestLoggerMiddleware(this.logger));
     this.app.use('/', createRouter(
       this,
-      this.calendarService,
-      this.transports,
+      this.accounts,
+      this.calendarWatch,
+      this.sessions,
       this.serverName,
       this.serverVersion,
       this.logger,
-      this.heartbeatIntervals
+      this.userKeys,
+      this.authenticator
     ));
 
     this.logger.debug('[INIT] Server successfully configured');
@@ -80,40 +206,237 @@ export class Server {
 
     // Attempt to initialize the MCP server if already authenticated
     try {
-      const isInitialized = await this.calendarService.initialize();
-      if (isInitialized) {
-        this.logger.info('[GCAL] Service successfully initialized');
+      const initializedAccounts = await this.accounts.initialize();
+      if (this.userKeys) {
+        // Users authorize on their own, so sessions are accepted right away
+        await this.initializeMcpServer();
+        this.logger.info(`[MCP] Server initialized in multi-tenant mode | Users: ${initializedAccounts.length}`);
+      } else if (initializedAccounts.length) {
+        this.logger.info(`[GCAL] Service successfully initialized | Accounts: ${initializedAccounts.join(', ')}`);
         await this.initializeMcpServer();
         this.logger.info('[MCP] Server automatically initialized');
       } else {
-        const authUrl = this.calendarService.getAuthUrl();
         this.logger.info('[GCAL] Authentication required');
-        this.logger.info(`[AUTH] URL: ${authUrl}`);
+        this.logger.info(`[AUTH] URL: ${this.baseUrl}/auth`);
       }
     } catch (error) {
       this.logger.error('[MCP] Initialization failed:', error);
       this.logger.info('[SERVER] Starting without MCP integration');
     }
 
+    this.sessions.startExpiry();
+
     return new Promise((resolve) => {
-      this.app.listen(parseInt(port), host, () => {
+      this.httpServer = this.app.listen(parseInt(port), host, () => {
         this.logger.info(`[SERVER] ${this.serverName} v${this.serverVersion} running at: http://${host}:${port}`);
         resolve();
       });
     });
   }
 
+  /**
+   * Serves a single MCP client over stdin/stdout instead of HTTP, for desktop clients that launch
+   * the server themselves. Without a linked account, the OAuth callback is received by a
+   * temporary local listener.
+   */
+  public async startStdio(): Promise<void> {
+    this.logger.info('[SERVER] Starting in stdio mode');
+
+    const initializedAccounts = await this.accounts.initialize();
+    if (initializedAccounts.length) {
+      this.logger.info(`[GCAL] Service successfully initialized | Accounts: ${initializedAccounts.join(', ')}`);
+    } else {
+      this.authorizeLocally().catch(error => {
+        this.logger.error('[AUTH] Local authorization failed:', error);
+      });
+    }
+
+    const transport = new StdioServerTransport();
+    transport.onclose = () => {
+      this.logger.info('[SERVER] stdio client disconnected');
+      this.sessions.remove(STDIO_SESSION_ID);
+    };
+
+    const mcpServer = this.createSessionServer(STDIO_SESSION_ID);
+    await mcpServer.connect(transport);
+    this.sessions.add(STDIO_SESSION_ID, { transport, mcpServer, type: 'stdio' });
+    this.mcpInitialized = true;
+    this.logger.info(`[SERVER] ${this.serverName} v${this.serverVersion} running on stdio`);
+  }
+
+  /**
+   * Links the default account through a one-shot listener on the OAuth redirect URI
+   */
+  private async authorizeLocally(): Promise<void> {
+    const logAuthUrl = async () => {
+      this.logger.info('[GCAL] Authentication required, open this URL in your browser:');
+      this.logger.info(`[AUTH] URL: ${await this.accounts.getAuthUrl()}`);
+    };
+
+    await logAuthUrl();
+    await listenForAuthorization(
+      { redirectUri: this.redirectUri, timeout: LOCAL_AUTHORIZATION_TIMEOUT },
+      async (code, state) => {
+        const accountId = await this.accounts.linkAccount(code, state);
+        this.logger.info(`[AUTH] Google Calendar successfully authorized | Account: ${accountId}`);
+      },
+      logAuthUrl,
+      this.logger
+    );
+  }
+
   public async initializeMcpServer(): Promise<void> {
-    this.mcpServer = new McpServer({
+    this.mcpInitialized = true;
+
+    this.calendarWatch.start().catch(error => {
+      this.logger.error('[WATCH] Error starting push notifications:', error);
+    });
+  }
+
+  /**
+   * Creates the MCP server of an SSE or Streamable HTTP session. Each session gets its own server so that
+   * responses and resource subscriptions stay bound to the session's transport.
+   * Sessions of a user (multi-tenant mode) only act as that user's account.
+   * The caller registers the session in the session manager once its transport is connected.
+   */
+  public createSessionServer(sessionId: string, options: SessionOptions = {}): McpServer {
+    const { userAccountId, readOnly, admin } = options;
+    const mcpServer = new McpServer({
       name: this.serverName,
       version: this.serverVersion,
+    }, {
+      // Lets the session be warned when the server shuts down
+      capabilities: { logging: {} }
+    });
+
+    const calendarService = this.accounts.get(userAccountId);
+
+    this.logger.debug(`[MCP] Registering calendar tools | SessionID: ${sessionId}`);
+    registerCalendarTools(mcpServer, this.accounts, this.logger, { sessionAccountId: userAccountId, readOnly, admin });
+
+    this.logger.debug(`[MCP] Registering calendar resources | SessionID: ${sessionId}`);
+    this.resourceSubscriptions[sessionId] = new Set();
+    registerCalendarResources(mcpServer, calendarService, this.logger, this.resourceSubscriptions[sessionId]);
+
+    this.logger.debug(`[MCP] Registering calendar prompts | SessionID: ${sessionId}`);
+    registerCalendarPrompts(mcpServer, calendarService, this.logger);
+
+    return mcpServer;
+  }
+
+  /**
+   * Releases the subscriptions of a closed session
+   */
+  public closeSession(sessionId: string): void {
+    delete this.resourceSubscriptions[sessionId];
+  }
+
+  /**
+   * Gets the sessions acting as an account
+   */
+  private getAccountSessions(accountId: string): string[] {
+    return this.sessions.getSessionIds(accountId, DEFAULT_ACCOUNT_ID);
+  }
+
+  /**
+   * Sends resources/updated to the sessions subscribed to the resources affected by an event change
+   */
+  private async notifyResourcesUpdated(accountId: string, calendarId: string, eventIds: string[]): Promise<void> {
+    const sessionIds = this.getAccountSessions(accountId);
+    const uris = [
+      calendarResourceUri(calendarId),
+      AGENDA_TODAY_URI,
+      ...eventIds.map(eventId => eventResourceUri(calendarId, eventId))
+    ];
+
+    // Changes to the calendar itself also change the calendar list and the listed resources
+    if (!eventIds.length) {
+      uris.push(CALENDARS_URI);
+      for (const sessionId of sessionIds) {
+        try {
+          await this.sessions.getServer(sessionId)?.server.sendResourceListChanged();
+        } catch (error) {
+          this.logger.error(`[MCP] Error sending resource list change | SessionID: ${sessionId}:`, error);
+        }
+      }
+    }
+
+    for (const sessionId of sessionIds) {
+      const subscriptions = this.resourceSubscriptions[sessionId] || new Set<string>();
+      for (const uri of uris.filter(uri => subscriptions.has(uri))) {
+        try {
+          await this.sessions.getServer(sessionId)?.server.sendResourceUpdated({ uri });
+          this.logger.debug(`[MCP] Resource updated sent | URI: ${uri} | SessionID: ${sessionId}`);
+        } catch (error) {
+          this.logger.error(`[MCP] Error sending resource update | SessionID: ${sessionId}:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Sends a notification to every connected session, or only to the sessions acting as an account
+   */
+  public async notifySessions(method: string, params: { [key: string]: unknown }, accountId?: string): Promise<void> {
+    const sessionIds = this.sessions.getSessionIds(accountId, DEFAULT_ACCOUNT_ID);
+    this.logger.debug(`[MCP] Sending ${method} to ${sessionIds.length} sessions`);
+
+    for (const sessionId of sessionIds) {
+      try {
+        await this.sessions.getTransport(sessionId)?.send({ jsonrpc: '2.0', method, params });
+      } catch (error) {
+        this.logger.error(`[MCP] Error sending ${method} | SessionID: ${sessionId}:`, error);
+      }
+    }
+  }
+
+  private async notifyCalendarChange(change: CalendarChange): Promise<void> {
+    // Watched calendars belong to the default account. A reset updates the calendar as a whole.
+    await this.notifyResourcesUpdated(DEFAULT_ACCOUNT_ID, change.calendarId, change.events.map(event => event.id!));
+    await this.notifySessions(CALENDAR_CHANGED_NOTIFICATION, {
+      calendarId: change.calendarId,
+      resourceState: change.resourceState,
+      reset: change.reset,
+      events: change.events.map(event => ({
+        id: event.id,
+        status: event.status,
+        summary: event.summary,
+        start: event.start,
+        end: event.end,
+        updated: event.updated
+      }))
+    }, DEFAULT_ACCOUNT_ID);
+  }
+
+  /**
+   * Shuts down in order: stops accepting connections and requests, lets the pending requests
+   * finish within the timeout, closes the sessions and stops the background timers
+   */
+  public async shutdown(timeout: number): Promise<void> {
+    this.logger.info(`[SERVER] Shutting down | Timeout: ${timeout / 1000}s`);
+
+    const httpServer = this.httpServer;
+    const httpClosed = new Promise<void>(resolve => {
+      if (!httpServer) {
+        resolve();
+        return;
+      }
+      httpServer.close(() => resolve());
+      httpServer.closeIdleConnections();
     });
 
-    this.logger.debug('[MCP] Registering calendar tools');
-    registerCalendarTools(this.mcpServer, this.calendarService, this.logger);
+    await this.sessions.shutdown(timeout);
+
+    // Connections still open after the sessions are closed (keep-alive, abandoned requests) are dropped
+    httpServer?.closeAllConnections();
+    await httpClosed;
+
+    this.calendarWatch.stop();
+    await this.accounts.stop();
+    this.logger.info('[SERVER] Shutdown complete');
   }
 
-  public getMcpServer(): McpServer | undefined {
-    return this.mcpServer;
+  public isMcpServerInitialized(): boolean {
+    return this.mcpInitialized;
   }
 }
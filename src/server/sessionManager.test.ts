@@ -0,0 +1,63 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { SessionManager, SessionOpenParams } from './sessionManager.js';
+import { createTestLogger } from '../testing/logger.js';
+
+const createSession = (params: Partial<SessionOpenParams> = {}): SessionOpenParams => ({
+  transport: { start: async () => {}, send: async () => {}, close: async () => {} } as Transport,
+  mcpServer: {} as McpServer,
+  type: 'streamableHttp',
+  ...params
+});
+
+describe('SessionManager', () => {
+  let sessions: SessionManager;
+
+  beforeEach(() => {
+    sessions = new SessionManager({ maxSessions: 10, maxSessionsPerClient: 2, idleTimeout: 0 }, createTestLogger());
+  });
+
+  it('only recognizes the principal that opened a session as its owner', () => {
+    sessions.add('session-1', createSession({ principalId: 'apiKey:1' }));
+
+    expect(sessions.isOwner('session-1', 'apiKey:1')).toBe(true);
+    expect(sessions.isOwner('session-1', 'apiKey:2')).toBe(false);
+    expect(sessions.isOwner('session-1')).toBe(false);
+  });
+
+  it('only recognizes the user that opened a session as its owner', () => {
+    sessions.add('session-1', createSession({ accountId: 'user-alice' }));
+
+    expect(sessions.isOwner('session-1', undefined, 'user-alice')).toBe(true);
+    expect(sessions.isOwner('session-1', undefined, 'user-bob')).toBe(false);
+    expect(sessions.isOwner('session-1')).toBe(false);
+  });
+
+  it('has no owner for unknown sessions', () => {
+    expect(sessions.isOwner('unknown')).toBe(false);
+  });
+
+  it('limits the sessions of each client', () => {
+    sessions.add('session-1', createSession({ principalId: 'apiKey:1' }));
+    sessions.add('session-2', createSession({ principalId: 'apiKey:1' }));
+
+    expect(sessions.checkCapacity('apiKey:1')).not.toBeNull();
+    expect(sessions.checkCapacity('apiKey:2')).toBeNull();
+  });
+
+  it('warns every session before closing it on shutdown', async () => {
+    const sendLoggingMessage = jest.fn(async () => {});
+    const close = jest.fn(async () => {});
+    sessions.add('session-1', createSession({
+      mcpServer: { server: { sendLoggingMessage } } as unknown as McpServer,
+      transport: { start: async () => {}, send: async () => {}, close } as Transport
+    }));
+
+    await sessions.shutdown(1000);
+
+    expect(sendLoggingMessage).toHaveBeenCalledWith(expect.objectContaining({ level: 'warning' }));
+    expect(close).toHaveBeenCalled();
+    expect(sendLoggingMessage.mock.invocationCallOrder[0]).toBeLessThan(close.mock.invocationCallOrder[0]);
+  });
+});
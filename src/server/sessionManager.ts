@@ -0,0 +1,374 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { RequestId, isJSONRPCRequest, isJSONRPCResponse, isJSONRPCError } from '@modelcontextprotocol/sdk/types.js';
+import { activeSessions } from '../utils/metrics.js';
+import { runWithContext } from '../utils/requestContext.js';
+import { ILogger } from '../utils/logger.js';
+
+export type SessionTransportType = 'sse' | 'streamableHttp' | 'stdio';
+
+interface SessionManagerConfig {
+  maxSessions: number;
+  maxSessionsPerClient: number; // per principal, or per IP address without endpoint authentication
+  idleTimeout: number; // in milliseconds, 0 disables the expiry
+}
+
+interface SessionEntry {
+  transport: Transport;
+  mcpServer: McpServer;
+  type: SessionTransportType;
+  clientKey: string;
+  accountId?: string;
+  principalId?: string;
+  remoteAddress?: string;
+  userAgent?: string;
+  createdAt: number;
+  lastActivityAt: number;
+  heartbeat?: NodeJS.Timeout;
+  // Requests received and not answered yet, such as running tool calls
+  pendingRequests: Set<RequestId>;
+}
+
+export interface SessionOpenParams {
+  transport: Transport;
+  mcpServer: McpServer;
+  type: SessionTransportType;
+  accountId?: string;
+  principalId?: string;
+  remoteAddress?: string;
+  userAgent?: string;
+}
+
+// Public view of a session, as listed by the admin API
+export interface SessionInfo {
+  sessionId: string;
+  type: SessionTransportType;
+  accountId?: string;
+  principalId?: string;
+  remoteAddress?: string;
+  userAgent?: string;
+  client?: { name: string, version: string };
+  createdAt: string;
+  lastActivityAt: string;
+  pendingRequests: number;
+}
+
+// Listener notified after a session is removed
+export type SessionRemovedListener = (sessionId: string) => void;
+
+// Interval between checks for idle sessions
+const EXPIRY_CHECK_INTERVAL = 60 * 1000; // 1 minute
+
+// Interval between checks for pending requests while shutting down
+const DRAIN_CHECK_INTERVAL = 100; // 100 milliseconds
+
+/**
+ * Keeps the open MCP sessions of every transport, limiting how many can be open at once
+ * and closing the ones left idle
+ */
+export class SessionManager {
+  private config: SessionManagerConfig;
+  private sessions: { [sessionId: string]: SessionEntry } = {};
+  private removedListeners: SessionRemovedListener[] = [];
+  private expiryTimerId: NodeJS.Timeout | null = null;
+  private closing = false;
+  private logger: ILogger;
+
+  constructor(config: SessionManagerConfig, logger: ILogger) {
+    this.config = config;
+    this.logger = logger;
+    this.logger.debug(`[SESSIONS] Initialized | Max: ${config.maxSessions} | Max per client: ${config.maxSessionsPerClient} | Idle timeout: ${config.idleTimeout / 1000}s`);
+  }
+
+  /**
+   * Registers a listener for removed sessions
+   */
+  public onRemoved(listener: SessionRemovedListener): void {
+    this.removedListeners.push(listener);
+  }
+
+  /**
+   * Checks if a client may open another session. Returns the reason when it may not.
+   */
+  public checkCapacity(principalId?: string, remoteAddress?: string): string | null {
+    if (this.closing) {
+      return 'The server is shutting down';
+    }
+
+    if (Object.keys(this.sessions).length >= this.config.maxSessions) {
+      return `The server reached its limit of ${this.config.maxSessions} sessions`;
+    }
+
+    const clientKey = this.getClientKey(principalId, remoteAddress);
+    const clientSessions = Object.values(this.sessions).filter(session => session.clientKey === clientKey).length;
+    if (clientSessions >= this.config.maxSessionsPerClient) {
+      return `The client reached its limit of ${this.config.maxSessionsPerClient} sessions`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Registers an open session. The MCP server must already be connected to the transport,
+   * so the requests of the session can be tracked.
+   */
+  public add(sessionId: string, params: SessionOpenParams): void {
+    const now = Date.now();
+    const session: SessionEntry = {
+      ...params,
+      clientKey: this.getClientKey(params.principalId, params.remoteAddress),
+      createdAt: now,
+      lastActivityAt: now,
+      pendingRequests: new Set()
+    };
+    this.trackRequests(sessionId, session);
+    this.sessions[sessionId] = session;
+    activeSessions.inc({ transport: params.type });
+
+    this.logger.info(`[SESSIONS] Opened | SessionID: ${sessionId} | Transport: ${params.type} | Open: ${Object.keys(this.sessions).length}`);
+  }
+
+  /**
+   * Records activity of a session, postponing its expiry
+   */
+  public touch(sessionId: string): void {
+    const session = this.sessions[sessionId];
+    if (session) {
+      session.lastActivityAt = Date.now();
+    }
+  }
+
+  /**
+   * Sets the timer that keeps the connection of a session alive, cleared when the session is removed
+   */
+  public setHeartbeat(sessionId: string, heartbeat: NodeJS.Timeout): void {
+    const session = this.sessions[sessionId];
+    if (session) {
+      session.heartbeat = heartbeat;
+    } else {
+      clearInterval(heartbeat);
+    }
+  }
+
+  public has(sessionId: string): boolean {
+    return !!this.sessions[sessionId];
+  }
+
+  public getTransport(sessionId: string): Transport | undefined {
+    return this.sessions[sessionId]?.transport;
+  }
+
+  public getServer(sessionId: string): McpServer | undefined {
+    return this.sessions[sessionId]?.mcpServer;
+  }
+
+  /**
+   * Checks if a request comes from the client that opened the session: the same principal
+   * and, in multi-tenant mode, the same user
+   */
+  public isOwner(sessionId: string, principalId?: string, accountId?: string): boolean {
+    const session = this.sessions[sessionId];
+    return !!session && session.principalId === principalId && session.accountId === accountId;
+  }
+
+  /**
+   * Gets the IDs of the open sessions, optionally only the ones acting as an account
+   */
+  public getSessionIds(accountId?: string, defaultAccountId?: string): string[] {
+    return Object.keys(this.sessions).filter(sessionId =>
+      !accountId || (this.sessions[sessionId].accountId || defaultAccountId) === accountId
+    );
+  }
+
+  /**
+   * Lists the open sessions
+   */
+  public list(): SessionInfo[] {
+    return Object.entries(this.sessions).map(([sessionId, session]) => {
+      const client = session.mcpServer.server.getClientVersion();
+      return {
+        sessionId,
+        type: session.type,
+        accountId: session.accountId,
+        principalId: session.principalId,
+        remoteAddress: session.remoteAddress,
+        userAgent: session.userAgent,
+        client: client ? { name: client.name, version: client.version } : undefined,
+        createdAt: new Date(session.createdAt).toISOString(),
+        lastActivityAt: new Date(session.lastActivityAt).toISOString(),
+        pendingRequests: session.pendingRequests.size
+      };
+    });
+  }
+
+  /**
+   * Closes a session through its transport. Returns false if the session does not exist.
+   */
+  public async close(sessionId: string, reason: string): Promise<boolean> {
+    const session = this.sessions[sessionId];
+    if (!session) {
+      return false;
+    }
+
+    this.logger.info(`[SESSIONS] Closing | SessionID: ${sessionId} | Reason: ${reason}`);
+
+    try {
+      await session.transport.close();
+    } catch (error) {
+      this.logger.error(`[SESSIONS] Error closing transport | SessionID: ${sessionId}:`, error);
+    }
+
+    // Transports that do not report their closing are removed here
+    this.remove(sessionId);
+    return true;
+  }
+
+  /**
+   * Forgets a session whose connection is closed
+   */
+  public remove(sessionId: string): void {
+    const session = this.sessions[sessionId];
+    if (!session) {
+      return;
+    }
+
+    if (session.heartbeat) {
+      clearInterval(session.heartbeat);
+    }
+    delete this.sessions[sessionId];
+    activeSessions.dec({ transport: session.type });
+
+    this.logger.info(`[SESSIONS] Removed | SessionID: ${sessionId} | Open: ${Object.keys(this.sessions).length}`);
+
+    for (const listener of this.removedListeners) {
+      try {
+        listener(sessionId);
+      } catch (error) {
+        this.logger.error('[SESSIONS] Error notifying session removal:', error);
+      }
+    }
+  }
+
+  /**
+   * Starts closing the sessions left idle
+   */
+  public startExpiry(): void {
+    if (!this.config.idleTimeout || this.expiryTimerId) {
+      return;
+    }
+
+    this.expiryTimerId = setInterval(() => {
+      this.closeIdleSessions().catch(error => {
+        this.logger.error('[SESSIONS] Error closing idle sessions:', error);
+      });
+    }, EXPIRY_CHECK_INTERVAL);
+    this.expiryTimerId.unref();
+  }
+
+  /**
+   * Stops the expiry of idle sessions
+   */
+  public stopExpiry(): void {
+    if (this.expiryTimerId) {
+      clearInterval(this.expiryTimerId);
+      this.expiryTimerId = null;
+    }
+  }
+
+  public isClosing(): boolean {
+    return this.closing;
+  }
+
+  /**
+   * Refuses new sessions and requests, tells the clients that the server is shutting down,
+   * waits for the pending requests to be answered (up to the timeout) and closes every session
+   */
+  public async shutdown(timeout: number): Promise<void> {
+    this.closing = true;
+    this.stopExpiry();
+
+    // Clients are warned before their connections drop, including idle ones with no pending request
+    await Promise.all(Object.entries(this.sessions).map(async ([sessionId, session]) => {
+      try {
+        await session.mcpServer.server.sendLoggingMessage({
+          level: 'warning',
+          logger: 'server',
+          data: `The server is shutting down, this session will be closed within ${Math.ceil(timeout / 1000)} seconds`
+        });
+      } catch (error) {
+        this.logger.warn(`[SESSIONS] Could not warn of the shutdown | SessionID: ${sessionId}: ${error}`);
+      }
+    }));
+
+    const deadline = Date.now() + timeout;
+    let pending = this.countPendingRequests();
+    if (pending) {
+      this.logger.info(`[SESSIONS] Waiting for ${pending} pending requests`);
+    }
+
+    while (pending && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, DRAIN_CHECK_INTERVAL));
+      pending = this.countPendingRequests();
+    }
+
+    if (pending) {
+      this.logger.warn(`[SESSIONS] Shutdown timeout reached with ${pending} pending requests`);
+    }
+
+    for (const sessionId of Object.keys(this.sessions)) {
+      await this.close(sessionId, 'server shutting down');
+    }
+  }
+
+  private countPendingRequests(): number {
+    return Object.values(this.sessions).reduce((total, session) => total + session.pendingRequests.size, 0);
+  }
+
+  /**
+   * Wraps the transport of a session to know which requests are still running and to tie
+   * their logs to the session. While shutting down, new requests are answered with an error
+   * instead of being processed.
+   */
+  private trackRequests(sessionId: string, session: SessionEntry): void {
+    const { transport, pendingRequests } = session;
+    const onmessage = transport.onmessage;
+    const send = transport.send.bind(transport);
+
+    // Messages keep the correlation ID of the HTTP request that carried them (a new one over stdio)
+    transport.onmessage = (message, extra) => runWithContext({ sessionId }, () => {
+      if (isJSONRPCRequest(message)) {
+        if (this.closing) {
+          this.logger.debug(`[SESSIONS] Request refused while shutting down | SessionID: ${sessionId} | Method: ${message.method}`);
+          send({ jsonrpc: '2.0', id: message.id, error: { code: -32000, message: 'The server is shutting down' } }).catch(error => {
+            this.logger.error(`[SESSIONS] Error refusing request | SessionID: ${sessionId}:`, error);
+          });
+          return;
+        }
+        pendingRequests.add(message.id);
+      }
+      onmessage?.(message, extra);
+    });
+
+    transport.send = (message, options) => {
+      if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+        pendingRequests.delete(message.id);
+      }
+      return send(message, options);
+    };
+  }
+
+  private async closeIdleSessions(): Promise<void> {
+    const idleBefore = Date.now() - this.config.idleTimeout;
+
+    for (const [sessionId, session] of Object.entries(this.sessions)) {
+      // The stdio client owns the process, so its session never expires
+      if (session.type !== 'stdio' && !session.pendingRequests.size && session.lastActivityAt < idleBefore) {
+        await this.close(sessionId, 'idle');
+      }
+    }
+  }
+
+  private getClientKey(principalId?: string, remoteAddress?: string): string {
+    return principalId || `ip:${remoteAddress || 'unknown'}`;
+  }
+}
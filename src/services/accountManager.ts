@@ -0,0 +1,395 @@
+import path from 'path';
+import crypto from 'crypto';
+import { calendar_v3 } from 'googleapis';
+import { TokenManager } from '../auth/tokenManager.js';
+import { TokenCipher } from '../auth/tokenCipher.js';
+import { TokenStore, TokenStoreConfig, MemoryTokenStore, createTokenStore } from '../auth/tokenStore.js';
+import { ServiceAccountAuth, ServiceAccountConfig } from '../auth/serviceAccount.js';
+import { OAuthConfig, OAuthHandler } from '../auth/oauthHandler.js';
+import { UserIdentity } from '../auth/userKeys.js';
+import { AuthorizationFlow, AuthorizationError, BrowserAuthorization } from '../auth/authorizationFlow.js';
+import { GoogleCalendarService } from './googleCalendar.js';
+import { GoogleRequestConfig, GoogleRequestExecutor } from './googleRequestExecutor.js';
+import { CalendarSync } from './calendarSync.js';
+import { AvailableSlot } from '../utils/availability.js';
+import { ILogger } from '../utils/logger.js';
+import { GetFreeBusyParams, FindAvailableSlotsParams } from '../types/index.js';
+
+interface AccountManagerConfig {
+  oauth: OAuthConfig;
+  authorization: {
+    stateSecret?: string;
+    stateTtl: number; // in milliseconds
+    allowedEmails: string[];
+    allowedDomains: string[];
+  };
+  encryption: {
+    keys?: string;
+    keyFile?: string;
+  };
+  tokenStore: Omit<TokenStoreConfig, 'defaultDir'>;
+  serviceAccount?: ServiceAccountConfig; // authenticates the default account with a service account
+  impersonationAllowed: string[]; // users (emails) and domains the service account may impersonate on request
+  requests: GoogleRequestConfig; // retries and rate limit of each account's API requests
+  storageDir: string;
+  tokenRefreshInterval: number; // in milliseconds
+  cacheTtl: number; // in milliseconds
+}
+
+export interface AccountStatus {
+  accountId: string;
+  authenticated: boolean;
+}
+
+// Listener notified after events of an account are changed through its service
+export type AccountEventsChangedListener = (accountId: string, calendarId: string, eventIds: string[]) => void;
+
+// Account used when a request does not name one. Its files keep the single-account names.
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+// Account IDs become part of file names, so only safe characters are accepted
+const ACCOUNT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Keeps one Google Calendar service per linked Google account, each with its own tokens and cache
+ */
+export class AccountManager {
+  private config: AccountManagerConfig;
+  private services: { [accountId: string]: GoogleCalendarService } = {};
+  private changeListeners: AccountEventsChangedListener[] = [];
+  private authorizationFlow: AuthorizationFlow;
+  private tokenCipher: TokenCipher;
+  private tokenStore: TokenStore;
+  private serviceAccount: ServiceAccountAuth | null = null;
+  private impersonated: { [email: string]: GoogleCalendarService } = {};
+  private logger: ILogger;
+
+  constructor(config: AccountManagerConfig, logger: ILogger) {
+    this.config = config;
+    this.logger = logger;
+    this.authorizationFlow = new AuthorizationFlow({ oauth: config.oauth, ...config.authorization }, logger);
+    this.tokenCipher = new TokenCipher(config.encryption, logger);
+    this.tokenStore = createTokenStore({ ...config.tokenStore, defaultDir: config.storageDir }, logger);
+
+    if (this.tokenStore.readOnly) {
+      this.logger.warn('[ACCOUNTS] Read-only token store: accounts linked or refreshed while running are kept in memory only');
+    }
+
+    if (!this.tokenCipher.isEnabled()) {
+      this.logger.warn('[ACCOUNTS] Tokens are stored unencrypted. Set TOKEN_ENCRYPTION_KEY or TOKEN_ENCRYPTION_KEY_FILE to encrypt them');
+    }
+    this.add(DEFAULT_ACCOUNT_ID);
+
+    if (config.serviceAccount) {
+      this.serviceAccount = new ServiceAccountAuth(config.serviceAccount, logger);
+      this.services[DEFAULT_ACCOUNT_ID].useServiceAccount(this.serviceAccount.createClient());
+      this.logger.info(`[ACCOUNTS] Default account uses the service account ${this.serviceAccount.getEmail()}`);
+    }
+
+    this.logger.debug(`[ACCOUNTS] Initialized | Storage: ${config.storageDir}`);
+  }
+
+  /**
+   * Registers a listener for event changes of every account, including accounts linked later
+   */
+  public onEventsChanged(listener: AccountEventsChangedListener): void {
+    this.changeListeners.push(listener);
+    for (const [accountId, service] of Object.entries(this.services)) {
+      service.onEventsChanged((calendarId, eventIds) => listener(accountId, calendarId, eventIds));
+    }
+    for (const [subject, service] of Object.entries(this.impersonated)) {
+      this.addImpersonatedListener(subject, service, listener);
+    }
+  }
+
+  /**
+   * Gets the service of a linked account
+   */
+  public get(accountId: string = DEFAULT_ACCOUNT_ID): GoogleCalendarService {
+    const service = this.services[accountId];
+    if (!service) {
+      throw new Error(`Unknown account: ${accountId}. Link it first at /auth?account=${accountId}`);
+    }
+    return service;
+  }
+
+  /**
+   * Gets the service of an account, creating it when the account is being linked
+   */
+  public getOrCreate(accountId: string = DEFAULT_ACCOUNT_ID): GoogleCalendarService {
+    return this.services[accountId] || this.add(accountId);
+  }
+
+  /**
+   * Gets a service acting as a Workspace user through the service account's domain-wide delegation
+   */
+  public getImpersonated(email: string): GoogleCalendarService {
+    if (!this.serviceAccount) {
+      throw new Error('Impersonation requires the service account mode (GOOGLE_AUTH_MODE=serviceAccount)');
+    }
+
+    const subject = email.trim().toLowerCase();
+    if (!this.isImpersonationAllowed(subject)) {
+      this.logger.warn(`[ACCOUNTS] Impersonation refused: ${subject}`);
+      throw new Error(`Impersonating ${subject} is not allowed. Add the user or their domain to GOOGLE_IMPERSONATE_ALLOWED`);
+    }
+
+    if (!this.impersonated[subject]) {
+      // Impersonated users have no stored tokens nor event cache of their own
+      const tokenManager = new TokenManager({
+        accountId: subject,
+        tokenRefreshInterval: this.config.tokenRefreshInterval,
+      }, new MemoryTokenStore(), this.logger);
+      const oauthHandler = new OAuthHandler(this.config.oauth, tokenManager, this.logger);
+
+      const requestExecutor = new GoogleRequestExecutor(this.config.requests, this.logger);
+
+      const service = new GoogleCalendarService(oauthHandler, tokenManager, requestExecutor, this.logger);
+      service.useServiceAccount(this.serviceAccount.createClient(subject));
+      for (const listener of this.changeListeners) {
+        this.addImpersonatedListener(subject, service, listener);
+      }
+
+      this.impersonated[subject] = service;
+      this.logger.info(`[ACCOUNTS] Impersonating user: ${subject}`);
+    }
+
+    return this.impersonated[subject];
+  }
+
+  /**
+   * Checks if an account ID is valid
+   */
+  public isValidAccountId(accountId: string): boolean {
+    return ACCOUNT_ID_PATTERN.test(accountId);
+  }
+
+  /**
+   * Gets the URL that links an account. The account ID travels in the signed OAuth state.
+   * The URL is not bound to a browser, so it is only meant for the operator of the server.
+   */
+  public async getAuthUrl(accountId: string = DEFAULT_ACCOUNT_ID): Promise<string> {
+    this.checkAccountId(accountId);
+    return this.authorizationFlow.createAuthUrl(accountId);
+  }
+
+  /**
+   * Starts the authorization of an account in a browser, which must keep the returned browser key
+   * until the callback
+   */
+  public async startBrowserAuthorization(accountId: string = DEFAULT_ACCOUNT_ID): Promise<BrowserAuthorization> {
+    this.checkAccountId(accountId);
+    return this.authorizationFlow.createBrowserAuthorization(accountId);
+  }
+
+  /**
+   * Creates a single-use ticket that starts the authorization of an account in a browser
+   */
+  public createAuthTicket(accountId: string = DEFAULT_ACCOUNT_ID): string {
+    this.checkAccountId(accountId);
+    return this.authorizationFlow.createTicket(accountId);
+  }
+
+  /**
+   * Redeems an authorization ticket, returning the account it links or null when it is not valid
+   */
+  public redeemAuthTicket(ticket: string): string | null {
+    return this.authorizationFlow.redeemTicket(ticket);
+  }
+
+  /**
+   * Completes an authorization callback, storing the tokens in the account named by its state.
+   * An account already linked to a Google user cannot be taken over by another one.
+   */
+  public async linkAccount(code: string, state: string, browserKey?: string): Promise<string> {
+    const { accountId, tokens, identity } = await this.authorizationFlow.complete(code, state, browserKey);
+
+    const linkedEmail = await this.services[accountId]?.getLinkedEmail();
+    if (linkedEmail && linkedEmail !== identity?.email) {
+      this.logger.warn(`[ACCOUNTS] Refused to link ${identity?.email || 'unknown user'} to account ${accountId}, linked to another Google user`);
+      await this.authorizationFlow.discard(tokens);
+      throw new AuthorizationError('This account is linked to another Google account. Revoke it before linking a different one', 409);
+    }
+
+    const service = this.getOrCreate(accountId);
+    await service.setTokens(tokens);
+    if (!await service.initialize()) {
+      throw new Error('Failed to initialize Google Calendar service');
+    }
+
+    this.logger.info(`[ACCOUNTS] Account linked: ${accountId}`);
+    return accountId;
+  }
+
+  /**
+   * Completes an authorization callback, linking the Google user as an account of its own derived
+   * from the user's email. Used when each user has a separate identity.
+   */
+  public async linkUser(code: string, state: string, browserKey?: string): Promise<UserIdentity> {
+    const { tokens, identity } = await this.authorizationFlow.complete(code, state, browserKey);
+
+    if (!identity) {
+      throw new AuthorizationError('The Google account did not provide a verified email', 403);
+    }
+
+    const accountId = `user-${crypto.createHash('sha256').update(identity.email).digest('hex').substring(0, 32)}`;
+
+    const service = this.getOrCreate(accountId);
+    await service.setTokens(tokens);
+    if (!await service.initialize()) {
+      throw new Error('Failed to initialize Google Calendar service');
+    }
+
+    this.logger.info(`[ACCOUNTS] User linked | Account: ${accountId}`);
+    return { accountId, email: identity.email };
+  }
+
+  /**
+   * Loads the accounts linked in previous runs and initializes their clients.
+   * Returns the IDs of the accounts ready to be used.
+   */
+  public async initialize(): Promise<string[]> {
+    for (const accountId of await this.tokenStore.list()) {
+      if (!this.services[accountId] && this.isValidAccountId(accountId)) {
+        this.add(accountId);
+      }
+    }
+
+    const initialized: string[] = [];
+    for (const [accountId, service] of Object.entries(this.services)) {
+      if (await service.initialize()) {
+        initialized.push(accountId);
+      }
+    }
+
+    this.logger.info(`[ACCOUNTS] ${initialized.length} of ${Object.keys(this.services).length} accounts initialized`);
+    return initialized;
+  }
+
+  /**
+   * Stops the token refresh of every account and releases the token store
+   */
+  public async stop(): Promise<void> {
+    for (const service of [...Object.values(this.services), ...Object.values(this.impersonated)]) {
+      service.stop();
+    }
+
+    await this.tokenStore.close();
+    this.logger.debug('[ACCOUNTS] Stopped');
+  }
+
+  /**
+   * Lists the known accounts and whether they are authenticated
+   */
+  public async listAccounts(): Promise<AccountStatus[]> {
+    const accounts: AccountStatus[] = [];
+    for (const [accountId, service] of Object.entries(this.services)) {
+      accounts.push({ accountId, authenticated: await service.isAuthenticated() });
+    }
+    return accounts;
+  }
+
+  /**
+   * Revokes the access of an account and forgets it. The default account is kept, unauthenticated.
+   */
+  public async revoke(accountId: string = DEFAULT_ACCOUNT_ID): Promise<void> {
+    await this.get(accountId).revokeAccess();
+
+    if (accountId !== DEFAULT_ACCOUNT_ID) {
+      delete this.services[accountId];
+      this.logger.info(`[ACCOUNTS] Account removed: ${accountId}`);
+    }
+  }
+
+  /**
+   * Queries free/busy through an account, adding the primary calendars of other linked accounts.
+   * Each account is queried with its own credentials, so its calendars do not need to be shared.
+   */
+  public async getFreeBusy(accountId: string | undefined, params: GetFreeBusyParams): Promise<calendar_v3.Schema$FreeBusyResponse> {
+    const { accountIds = [], ...query } = params;
+    const freeBusy = await this.get(accountId).getFreeBusy(query);
+    freeBusy.calendars = freeBusy.calendars || {};
+
+    for (const otherAccountId of accountIds) {
+      const key = `account:${otherAccountId}`;
+      try {
+        const other = await this.get(otherAccountId).getFreeBusy({ ...query, items: ['primary'] });
+        freeBusy.calendars[key] = other.calendars?.primary || {};
+      } catch (error) {
+        this.logger.warn(`[ACCOUNTS] Free/busy unavailable for account ${otherAccountId}: ${error}`);
+        freeBusy.calendars[key] = { errors: [{ domain: 'account', reason: String(error) }] };
+      }
+    }
+
+    return freeBusy;
+  }
+
+  /**
+   * Finds open slots shared by calendars of an account and the primary calendars of other linked accounts
+   */
+  public async findAvailableSlots(accountId: string | undefined, params: FindAvailableSlotsParams): Promise<{
+    slots: AvailableSlot[],
+    errors: { [calendarId: string]: calendar_v3.Schema$Error[] }
+  }> {
+    const freeBusy = await this.getFreeBusy(accountId, {
+      timeMin: params.timeMin,
+      timeMax: params.timeMax,
+      items: params.calendarIds,
+      accountIds: params.accountIds
+    });
+
+    return this.get(accountId).findAvailableSlots(params, freeBusy);
+  }
+
+  /**
+   * Reports changes made as an impersonated user as changes of the default account, the only one
+   * whose sessions can impersonate. Its primary calendar is reported by the user's email, its ID as
+   * seen by other users.
+   */
+  private addImpersonatedListener(subject: string, service: GoogleCalendarService, listener: AccountEventsChangedListener): void {
+    service.onEventsChanged((calendarId, eventIds) =>
+      listener(DEFAULT_ACCOUNT_ID, calendarId === 'primary' ? subject : calendarId, eventIds));
+  }
+
+  private isImpersonationAllowed(subject: string): boolean {
+    const domain = subject.split('@')[1];
+    return this.config.impersonationAllowed.includes(subject)
+      || (!!domain && this.config.impersonationAllowed.includes(domain));
+  }
+
+  private checkAccountId(accountId: string): void {
+    if (!this.isValidAccountId(accountId)) {
+      throw new Error(`Invalid account ID: ${accountId}. Use up to 64 letters, digits, "-" or "_"`);
+    }
+  }
+
+  private add(accountId: string): GoogleCalendarService {
+    this.checkAccountId(accountId);
+
+    const suffix = accountId === DEFAULT_ACCOUNT_ID ? '' : `-${accountId}`;
+
+    const tokenManager = new TokenManager({
+      accountId,
+      tokenRefreshInterval: this.config.tokenRefreshInterval,
+    }, this.tokenStore, this.logger, this.tokenCipher);
+
+    const oauthHandler = new OAuthHandler(this.config.oauth, tokenManager, this.logger);
+
+    const calendarSync = new CalendarSync({
+      cacheStoragePath: path.join(this.config.storageDir, `events-cache${suffix}.json`),
+      cacheTtl: this.config.cacheTtl,
+    }, this.logger);
+
+    // Google applies its quota per user, so each account gets its own rate limit
+    const requestExecutor = new GoogleRequestExecutor(this.config.requests, this.logger);
+
+    const service = new GoogleCalendarService(oauthHandler, tokenManager, requestExecutor, this.logger, calendarSync);
+    for (const listener of this.changeListeners) {
+      service.onEventsChanged((calendarId, eventIds) => listener(accountId, calendarId, eventIds));
+    }
+
+    this.services[accountId] = service;
+    this.logger.debug(`[ACCOUNTS] Account added: ${accountId}`);
+    return service;
+  }
+}
@@ -0,0 +1,338 @@
+import fs from 'fs';
+import { calendar_v3 } from 'googleapis';
+import { ILogger } from '../utils/logger.js';
+import { writeFileAtomic } from '../utils/files.js';
+
+interface CalendarSyncConfig {
+  cacheStoragePath: string;
+  cacheTtl: number; // in milliseconds, 0 disables reads from the cache
+}
+
+interface CalendarCacheEntry {
+  syncToken: string | null;
+  lastSyncedAt: number;
+  windowStart?: number; // in milliseconds, range of the cached occurrences
+  windowEnd?: number;
+  summary?: string | null;
+  timeZone?: string | null;
+  events: { [eventId: string]: calendar_v3.Schema$Event };
+}
+
+interface ListEventsQuery {
+  calendarId: string;
+  timeMin?: string;
+  timeMax?: string;
+  maxResults?: number;
+  q?: string;
+  singleEvents?: boolean;
+  orderBy?: string;
+}
+
+// Result of a sync: the events that changed, or a reset when the whole calendar was fetched again
+// (first sync, expired sync token or moved window) and any event may have changed
+export interface SyncResult {
+  reset: boolean;
+  events: calendar_v3.Schema$Event[];
+}
+
+// Occurrences are cached within a window around the current date, so open-ended recurring
+// series do not expand forever. The window is moved by a full sync once half of its future has passed.
+const SYNC_WINDOW_PAST = 90 * 24 * 60 * 60 * 1000; // 90 days
+const SYNC_WINDOW_FUTURE = 365 * 24 * 60 * 60 * 1000; // 1 year
+
+/**
+ * Keeps a local copy of each calendar's events using incremental sync (syncToken)
+ */
+export class CalendarSync {
+  private config: CalendarSyncConfig;
+  private calendars: { [calendarId: string]: CalendarCacheEntry } | null = null;
+  private pendingSyncs: { [calendarId: string]: Promise<SyncResult> } = {};
+  private logger: ILogger;
+
+  constructor(config: CalendarSyncConfig, logger: ILogger) {
+    this.config = config;
+    this.logger = logger;
+    this.logger.debug(`[SYNC] Initialized | Storage: ${config.cacheStoragePath} | TTL: ${config.cacheTtl / 1000}s`);
+  }
+
+  /**
+   * Checks if reads may be served from the cache
+   */
+  public isEnabled(): boolean {
+    return this.config.cacheTtl > 0;
+  }
+
+  /**
+   * Checks if a listEvents query can be answered from the cache.
+   * The cache holds expanded occurrences, so only singleEvents queries without full-text search qualify,
+   * and their range must be within the part of the window that is always cached.
+   */
+  public canServe(query: ListEventsQuery): boolean {
+    if (!this.isEnabled() || query.singleEvents !== true || query.q || !query.timeMin || !query.timeMax) {
+      return false;
+    }
+
+    const now = Date.now();
+    return Date.parse(query.timeMin) >= now - SYNC_WINDOW_PAST && Date.parse(query.timeMax) <= now + SYNC_WINDOW_FUTURE / 2;
+  }
+
+  /**
+   * Lists events from the cache, syncing the calendar first if the cache is stale
+   */
+  public async listEvents(calendar: calendar_v3.Calendar, query: ListEventsQuery): Promise<calendar_v3.Schema$Events> {
+    const entry = await this.ensureFresh(calendar, query.calendarId);
+
+    const timeMin = query.timeMin ? Date.parse(query.timeMin) : -Infinity;
+    const timeMax = query.timeMax ? Date.parse(query.timeMax) : Infinity;
+
+    // Same semantics as the API: timeMin filters by end time, timeMax by start time
+    let items = Object.values(entry.events).filter(event => {
+      const start = this.getTime(event.start);
+      const end = this.getTime(event.end);
+      return end > timeMin && start < timeMax;
+    });
+
+    if (query.orderBy === 'updated') {
+      items.sort((a, b) => Date.parse(a.updated || '') - Date.parse(b.updated || ''));
+    } else if (query.orderBy === 'startTime') {
+      items.sort((a, b) => this.getTime(a.start) - this.getTime(b.start));
+    }
+
+    if (query.maxResults) {
+      items = items.slice(0, query.maxResults);
+    }
+
+    this.logger.debug(`[SYNC] Served ${items.length} events from cache | Calendar: ${query.calendarId}`);
+
+    return {
+      kind: 'calendar#events',
+      summary: entry.summary,
+      timeZone: entry.timeZone,
+      items
+    };
+  }
+
+  /**
+   * Gets an event from the cache, syncing the calendar first if the cache is stale.
+   * Returns null when the event is not cached (e.g. the parent of a recurring series).
+   */
+  public async getEvent(calendar: calendar_v3.Calendar, calendarId: string, eventId: string): Promise<calendar_v3.Schema$Event | null> {
+    const entry = await this.ensureFresh(calendar, calendarId);
+    const event = entry.events[eventId] || null;
+    this.logger.debug(`[SYNC] Cache ${event ? 'hit' : 'miss'} | Event: ${eventId} | Calendar: ${calendarId}`);
+    return event;
+  }
+
+  /**
+   * Marks a calendar as stale so the next read performs an incremental sync
+   */
+  public async invalidate(calendarId: string): Promise<void> {
+    const calendars = await this.load();
+    if (calendars[calendarId]) {
+      this.logger.debug(`[SYNC] Invalidated | Calendar: ${calendarId}`);
+      calendars[calendarId].lastSyncedAt = 0;
+    }
+  }
+
+  /**
+   * Removes a calendar that is no longer accessible from the cache
+   */
+  public async remove(calendarId: string): Promise<void> {
+    const calendars = await this.load();
+    if (calendars[calendarId]) {
+      this.logger.debug(`[SYNC] Removed | Calendar: ${calendarId}`);
+      delete calendars[calendarId];
+      await this.save();
+    }
+  }
+
+  /**
+   * Removes every cached calendar
+   */
+  public async clear(): Promise<void> {
+    this.logger.debug('[SYNC] Clearing cache');
+    this.calendars = {};
+
+    if (fs.existsSync(this.config.cacheStoragePath)) {
+      await fs.promises.unlink(this.config.cacheStoragePath);
+    }
+  }
+
+  /**
+   * Synchronizes a calendar, using its sync token when available.
+   * Returns the events that changed since the previous sync, or a reset after a full sync.
+   */
+  public async sync(calendar: calendar_v3.Calendar, calendarId: string): Promise<SyncResult> {
+    // Concurrent callers share the same sync instead of issuing duplicated requests
+    if (!this.pendingSyncs[calendarId]) {
+      this.pendingSyncs[calendarId] = this.runSync(calendar, calendarId).finally(() => {
+        delete this.pendingSyncs[calendarId];
+      });
+    }
+
+    return this.pendingSyncs[calendarId];
+  }
+
+  private async ensureFresh(calendar: calendar_v3.Calendar, calendarId: string): Promise<CalendarCacheEntry> {
+    const calendars = await this.load();
+    const entry = calendars[calendarId];
+
+    if (!entry || Date.now() - entry.lastSyncedAt > this.config.cacheTtl) {
+      await this.sync(calendar, calendarId);
+    }
+
+    return calendars[calendarId];
+  }
+
+  private async runSync(calendar: calendar_v3.Calendar, calendarId: string): Promise<SyncResult> {
+    const calendars = await this.load();
+    const entry = calendars[calendarId];
+    let result: SyncResult;
+
+    try {
+      if (entry?.syncToken && !this.isWindowStale(entry)) {
+        result = { reset: false, events: await this.fetchChanges(calendar, calendarId, entry) };
+      } else {
+        result = await this.fullSync(calendar, calendarId);
+      }
+    } catch (error: any) {
+      // 410 Gone means the sync token expired and a full resync is required
+      if (entry?.syncToken && (error?.code === 410 || error?.response?.status === 410)) {
+        this.logger.warn(`[SYNC] Sync token expired, performing full resync | Calendar: ${calendarId}`);
+        result = await this.fullSync(calendar, calendarId);
+      } else {
+        this.logger.error(`[SYNC] Error syncing calendar ${calendarId}:`, error);
+        throw error;
+      }
+    }
+
+    await this.save();
+    return result;
+  }
+
+  private async fullSync(calendar: calendar_v3.Calendar, calendarId: string): Promise<SyncResult> {
+    const now = Date.now();
+    const entry: CalendarCacheEntry = {
+      syncToken: null,
+      lastSyncedAt: 0,
+      windowStart: now - SYNC_WINDOW_PAST,
+      windowEnd: now + SYNC_WINDOW_FUTURE,
+      events: {}
+    };
+    this.logger.debug(`[SYNC] Full sync | Calendar: ${calendarId} | Window: ${new Date(entry.windowStart!).toISOString()} - ${new Date(entry.windowEnd!).toISOString()}`);
+
+    await this.fetchChanges(calendar, calendarId, entry);
+    this.calendars![calendarId] = entry;
+    return { reset: true, events: [] };
+  }
+
+  /**
+   * Checks if the cached window no longer covers enough of the future (or predates windows)
+   */
+  private isWindowStale(entry: CalendarCacheEntry): boolean {
+    return !entry.windowEnd || entry.windowEnd - Date.now() < SYNC_WINDOW_FUTURE / 2;
+  }
+
+  private async fetchChanges(
+    calendar: calendar_v3.Calendar,
+    calendarId: string,
+    entry: CalendarCacheEntry
+  ): Promise<calendar_v3.Schema$Event[]> {
+    let pageToken: string | undefined;
+    const changes: calendar_v3.Schema$Event[] = [];
+
+    // The window bounds the first request only: Google refuses it along with a sync token
+    const window = entry.syncToken ? {} : {
+      timeMin: new Date(entry.windowStart!).toISOString(),
+      timeMax: new Date(entry.windowEnd!).toISOString()
+    };
+
+    do {
+      const response = await calendar.events.list({
+        calendarId,
+        singleEvents: true,
+        maxResults: 2500,
+        syncToken: entry.syncToken || undefined,
+        ...window,
+        pageToken
+      });
+
+      for (const event of response.data.items || []) {
+        if (!event.id) continue;
+        changes.push(event);
+
+        if (event.status === 'cancelled') {
+          delete entry.events[event.id];
+
+          // A cancelled recurring event removes all of its occurrences
+          Object.values(entry.events)
+            .filter(cached => cached.recurringEventId === event.id)
+            .forEach(cached => delete entry.events[cached.id!]);
+        } else if (this.isInWindow(event, entry)) {
+          entry.events[event.id] = event;
+        } else {
+          // Moved out of the window
+          delete entry.events[event.id];
+        }
+      }
+
+      entry.summary = response.data.summary;
+      entry.timeZone = response.data.timeZone;
+      pageToken = response.data.nextPageToken || undefined;
+      if (response.data.nextSyncToken) {
+        entry.syncToken = response.data.nextSyncToken;
+      }
+    } while (pageToken);
+
+    entry.lastSyncedAt = Date.now();
+    this.logger.debug(`[SYNC] Synced | Calendar: ${calendarId} | Changes: ${changes.length} | Cached: ${Object.keys(entry.events).length}`);
+    return changes;
+  }
+
+  /**
+   * Checks if an occurrence overlaps the cached window. Changes outside of it are not cached.
+   */
+  private isInWindow(event: calendar_v3.Schema$Event, entry: CalendarCacheEntry): boolean {
+    return this.getTime(event.end) > (entry.windowStart ?? -Infinity) && this.getTime(event.start) < (entry.windowEnd ?? Infinity);
+  }
+
+  private getTime(time?: calendar_v3.Schema$EventDateTime): number {
+    if (time?.dateTime) return Date.parse(time.dateTime);
+    if (time?.date) return Date.parse(`${time.date}T00:00:00Z`);
+    return NaN;
+  }
+
+  private async load(): Promise<{ [calendarId: string]: CalendarCacheEntry }> {
+    if (this.calendars) {
+      return this.calendars;
+    }
+
+    this.calendars = {};
+
+    try {
+      if (fs.existsSync(this.config.cacheStoragePath)) {
+        this.logger.debug(`[SYNC] Loading from ${this.config.cacheStoragePath}`);
+        const data = await fs.promises.readFile(this.config.cacheStoragePath, 'utf8');
+        this.calendars = JSON.parse(data);
+
+        // Persisted entries are served only after a sync confirms they are up to date
+        Object.values(this.calendars!).forEach(entry => entry.lastSyncedAt = 0);
+      }
+    } catch (error) {
+      this.logger.error('[SYNC] Error loading cache, starting empty:', error);
+      this.calendars = {};
+    }
+
+    return this.calendars!;
+  }
+
+  private async save(): Promise<void> {
+    try {
+      // The cache holds event contents, such as descriptions and attendees
+      await writeFileAtomic(this.config.cacheStoragePath, JSON.stringify(this.calendars), 0o600);
+      this.logger.debug(`[SYNC] Saved to ${this.config.cacheStoragePath}`);
+    } catch (error) {
+      this.logger.error('[SYNC] Error saving cache:', error);
+    }
+  }
+}
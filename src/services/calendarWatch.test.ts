@@ -0,0 +1,146 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { calendar_v3 } from 'googleapis';
+import { CalendarWatch, CalendarChange, CalendarChangeListener } from './calendarWatch.js';
+import { GoogleCalendarService } from './googleCalendar.js';
+import { AccountManager } from './accountManager.js';
+import { createRouter, WEBHOOK_PATH } from '../routes/index.js';
+import { Server } from '../server/server.js';
+import { SessionManager } from '../server/sessionManager.js';
+import { RequestAuthenticator } from '../auth/requestAuth.js';
+import { createTestLogger } from '../testing/logger.js';
+
+const CHANNEL_TOKEN = 'channel-token';
+
+const changedEvent: calendar_v3.Schema$Event = { id: 'event-1', status: 'confirmed', summary: 'Planning' };
+
+describe('CalendarWatch webhook', () => {
+  let storageDir: string;
+  let httpServer: http.Server;
+  let baseUrl: string;
+  let calendarService: {
+    syncCalendar: jest.Mock<() => Promise<{ reset: boolean; events: calendar_v3.Schema$Event[] }>>;
+    watchEvents: jest.Mock<(calendarId: string, channel: calendar_v3.Schema$Channel) => Promise<calendar_v3.Schema$Channel>>;
+    stopChannel: jest.Mock<() => Promise<void>>;
+  };
+  let watch: CalendarWatch;
+  let channelId: string;
+
+  // Stands in for Google, posting the headers of a channel callback
+  const sendCallback = (headers: { [name: string]: string }) =>
+    fetch(`${baseUrl}${WEBHOOK_PATH}`, { method: 'POST', headers: { 'x-goog-message-number': '1', ...headers } });
+
+  beforeEach(async () => {
+    storageDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'calendar-watch-'));
+
+    calendarService = {
+      syncCalendar: jest.fn(async () => ({ reset: false, events: [changedEvent] })),
+      watchEvents: jest.fn(async (calendarId: string, channel: calendar_v3.Schema$Channel) => ({
+        ...channel,
+        resourceId: `resource-${calendarId}`,
+        expiration: String(Date.now() + 7 * 24 * 60 * 60 * 1000)
+      })),
+      stopChannel: jest.fn(async () => {})
+    };
+
+    const logger = createTestLogger();
+    watch = new CalendarWatch({
+      calendarIds: ['primary'],
+      webhookUrl: `https://example.com${WEBHOOK_PATH}`,
+      channelStoragePath: path.join(storageDir, 'watch-channels.json'),
+      channelTtl: 604800,
+      channelToken: CHANNEL_TOKEN
+    }, calendarService as unknown as GoogleCalendarService, logger);
+    await watch.start();
+    channelId = calendarService.watchEvents.mock.calls[0][1].id!;
+
+    // Only the webhook route is exercised, so the other dependencies of the router are left empty
+    const app = express();
+    app.use('/', createRouter(
+      {} as Server,
+      {} as AccountManager,
+      watch,
+      {} as SessionManager,
+      'test',
+      '1.0.0',
+      logger,
+      null,
+      new RequestAuthenticator({ mode: 'none', resourceUrl: 'https://example.com' }, logger)
+    ));
+
+    httpServer = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => httpServer.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    watch.stop();
+    await new Promise(resolve => httpServer.close(resolve));
+    await fs.promises.rm(storageDir, { recursive: true, force: true });
+  });
+
+  it('registers a channel and stores it readable by the owner only', async () => {
+    const channelFile = path.join(storageDir, 'watch-channels.json');
+    const channels = JSON.parse(await fs.promises.readFile(channelFile, 'utf8'));
+
+    expect(channels.primary).toMatchObject({ id: channelId, resourceId: 'resource-primary', token: CHANNEL_TOKEN });
+    expect((await fs.promises.stat(channelFile)).mode & 0o777).toBe(0o600);
+  });
+
+  it('accepts a callback and reports the synchronized changes', async () => {
+    const change = new Promise<CalendarChange>(resolve => watch.onChange(resolve));
+
+    const response = await sendCallback({
+      'x-goog-channel-id': channelId,
+      'x-goog-channel-token': CHANNEL_TOKEN,
+      'x-goog-resource-state': 'exists'
+    });
+
+    expect(response.status).toBe(200);
+    await expect(change).resolves.toEqual({ calendarId: 'primary', resourceState: 'exists', reset: false, events: [changedEvent] });
+    // Once to prime the sync token on start, once for the callback
+    expect(calendarService.syncCalendar).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects a callback with a bad token', async () => {
+    const response = await sendCallback({
+      'x-goog-channel-id': channelId,
+      'x-goog-channel-token': 'wrong-token',
+      'x-goog-resource-state': 'exists'
+    });
+
+    expect(response.status).toBe(403);
+    expect(calendarService.syncCalendar).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a callback of an unknown channel', async () => {
+    const response = await sendCallback({
+      'x-goog-channel-id': 'unknown-channel',
+      'x-goog-channel-token': CHANNEL_TOKEN,
+      'x-goog-resource-state': 'exists'
+    });
+
+    expect(response.status).toBe(404);
+    expect(calendarService.syncCalendar).toHaveBeenCalledTimes(1);
+  });
+
+  it('acknowledges the sync message of a new channel without syncing', async () => {
+    const listener = jest.fn<CalendarChangeListener>();
+    watch.onChange(listener);
+
+    const response = await sendCallback({
+      'x-goog-channel-id': channelId,
+      'x-goog-channel-token': CHANNEL_TOKEN,
+      'x-goog-resource-state': 'sync'
+    });
+
+    expect(response.status).toBe(200);
+    expect(calendarService.syncCalendar).toHaveBeenCalledTimes(1);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,255 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { calendar_v3 } from 'googleapis';
+import { GoogleCalendarService } from './googleCalendar.js';
+import { ILogger } from '../utils/logger.js';
+import { writeFileAtomic } from '../utils/files.js';
+
+interface CalendarWatchConfig {
+  calendarIds: string[];
+  webhookUrl: string;
+  channelStoragePath: string;
+  channelTtl: number; // in seconds
+  channelToken?: string; // shared token for every channel, random per channel when absent
+}
+
+interface WatchChannel {
+  id: string;
+  resourceId: string;
+  calendarId: string;
+  token: string;
+  expiration: number;
+}
+
+export interface CalendarChange {
+  calendarId: string;
+  resourceState: string;
+  reset: boolean; // the calendar was fetched again and any event may have changed
+  events: calendar_v3.Schema$Event[]; // changed events, empty on a reset
+}
+
+export type CalendarChangeListener = (change: CalendarChange) => void | Promise<void>;
+
+export type WebhookResult = 'accepted' | 'unknownChannel' | 'invalidToken';
+
+// Channels are replaced this long before they expire
+const RENEWAL_MARGIN = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Manages Google Calendar push notification channels (events.watch) and turns
+ * channel callbacks into change notifications
+ */
+export class CalendarWatch {
+  private config: CalendarWatchConfig;
+  private calendarService: GoogleCalendarService;
+  private channels: { [calendarId: string]: WatchChannel } = {};
+  private renewalTimers: { [calendarId: string]: NodeJS.Timeout } = {};
+  private listeners: CalendarChangeListener[] = [];
+  private logger: ILogger;
+
+  constructor(config: CalendarWatchConfig, calendarService: GoogleCalendarService, logger: ILogger) {
+    this.config = config;
+    this.calendarService = calendarService;
+    this.logger = logger;
+    this.logger.debug(`[WATCH] Initialized | Calendars: ${config.calendarIds.join(', ') || 'none'} | Webhook: ${config.webhookUrl}`);
+  }
+
+  /**
+   * Checks if any calendar is configured to be watched
+   */
+  public isEnabled(): boolean {
+    return this.config.calendarIds.length > 0;
+  }
+
+  /**
+   * Registers a listener for calendar changes
+   */
+  public onChange(listener: CalendarChangeListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Registers (or reuses) a channel for every configured calendar and schedules renewals
+   */
+  public async start(): Promise<void> {
+    if (!this.isEnabled()) {
+      this.logger.debug('[WATCH] No calendars configured, push notifications disabled');
+      return;
+    }
+
+    await this.loadChannels();
+
+    // Stops channels of calendars that are no longer watched
+    for (const channel of Object.values(this.channels)) {
+      if (!this.config.calendarIds.includes(channel.calendarId)) {
+        await this.stopChannel(channel);
+      }
+    }
+
+    for (const calendarId of this.config.calendarIds) {
+      try {
+        // Primes the sync token so notifications only report new changes
+        await this.calendarService.syncCalendar(calendarId);
+
+        const channel = this.channels[calendarId];
+        if (channel && channel.expiration - Date.now() > RENEWAL_MARGIN) {
+          this.logger.debug(`[WATCH] Reusing channel ${channel.id} | Calendar: ${calendarId}`);
+          this.scheduleRenewal(channel);
+        } else {
+          await this.renewChannel(calendarId);
+        }
+      } catch (error) {
+        this.logger.error(`[WATCH] Error watching calendar ${calendarId}:`, error);
+      }
+    }
+
+    await this.saveChannels();
+  }
+
+  /**
+   * Cancels the renewal timers. Channels stay registered on Google and are reused on the next start.
+   */
+  public stop(): void {
+    this.logger.debug('[WATCH] Stopping renewal timers');
+    Object.values(this.renewalTimers).forEach(timer => clearTimeout(timer));
+    this.renewalTimers = {};
+  }
+
+  /**
+   * Validates a channel callback and processes it in the background
+   */
+  public handleNotification(headers: { [name: string]: string | string[] | undefined }): WebhookResult {
+    const header = (name: string): string => {
+      const value = headers[name];
+      return (Array.isArray(value) ? value[0] : value) || '';
+    };
+
+    const channelId = header('x-goog-channel-id');
+    const resourceState = header('x-goog-resource-state');
+    const channel = Object.values(this.channels).find(c => c.id === channelId);
+
+    if (!channel) {
+      this.logger.warn(`[WATCH] Notification for unknown channel: ${channelId || 'none'}`);
+      return 'unknownChannel';
+    }
+
+    const token = Buffer.from(header('x-goog-channel-token'));
+    const expected = Buffer.from(channel.token);
+    if (token.length !== expected.length || !crypto.timingSafeEqual(token, expected)) {
+      this.logger.warn(`[WATCH] Invalid token for channel ${channelId}`);
+      return 'invalidToken';
+    }
+
+    this.logger.debug(`[WATCH] Notification received | Channel: ${channelId} | State: ${resourceState} | Message: ${header('x-goog-message-number')}`);
+
+    // The first message of a channel only confirms that it was created
+    if (resourceState !== 'sync') {
+      this.processChange(channel.calendarId, resourceState).catch(error => {
+        this.logger.error(`[WATCH] Error processing change of calendar ${channel.calendarId}:`, error);
+      });
+    }
+
+    return 'accepted';
+  }
+
+  private async processChange(calendarId: string, resourceState: string): Promise<void> {
+    const { reset, events } = await this.calendarService.syncCalendar(calendarId);
+    if (!reset && !events.length) {
+      this.logger.debug(`[WATCH] No changes after sync | Calendar: ${calendarId}`);
+      return;
+    }
+
+    if (reset) {
+      this.logger.info(`[WATCH] Calendar resynchronized | Calendar: ${calendarId}`);
+    } else {
+      this.logger.info(`[WATCH] ${events.length} events changed | Calendar: ${calendarId}`);
+    }
+    for (const listener of this.listeners) {
+      await listener({ calendarId, resourceState, reset, events });
+    }
+  }
+
+  private async renewChannel(calendarId: string): Promise<void> {
+    const previous = this.channels[calendarId];
+
+    const response = await this.calendarService.watchEvents(calendarId, {
+      id: crypto.randomUUID(),
+      type: 'web_hook',
+      address: this.config.webhookUrl,
+      token: this.config.channelToken || crypto.randomBytes(32).toString('hex'),
+      params: { ttl: String(this.config.channelTtl) }
+    });
+
+    const channel: WatchChannel = {
+      id: response.id!,
+      resourceId: response.resourceId!,
+      calendarId,
+      token: response.token!,
+      expiration: response.expiration ? parseInt(response.expiration) : Date.now() + this.config.channelTtl * 1000
+    };
+
+    this.channels[calendarId] = channel;
+    this.logger.info(`[WATCH] Channel ${channel.id} registered | Calendar: ${calendarId} | Expires: ${new Date(channel.expiration).toISOString()}`);
+    this.scheduleRenewal(channel);
+
+    // Google channels cannot be extended, so the old one is stopped once the new one is active
+    if (previous) {
+      await this.stopChannel(previous);
+    }
+  }
+
+  private scheduleRenewal(channel: WatchChannel): void {
+    if (this.renewalTimers[channel.calendarId]) {
+      clearTimeout(this.renewalTimers[channel.calendarId]);
+    }
+
+    const delay = Math.max(channel.expiration - Date.now() - RENEWAL_MARGIN, 60 * 1000);
+    this.logger.debug(`[WATCH] Renewal of channel ${channel.id} in ${Math.round(delay / 60000)}min`);
+
+    this.renewalTimers[channel.calendarId] = setTimeout(async () => {
+      try {
+        await this.renewChannel(channel.calendarId);
+        await this.saveChannels();
+      } catch (error) {
+        this.logger.error(`[WATCH] Error renewing channel of calendar ${channel.calendarId}:`, error);
+        // Retries on the next cycle while the current channel is still alive
+        this.scheduleRenewal(channel);
+      }
+    }, delay);
+  }
+
+  private async stopChannel(channel: WatchChannel): Promise<void> {
+    try {
+      await this.calendarService.stopChannel(channel.id, channel.resourceId);
+    } catch (error) {
+      // The channel may have already expired
+      this.logger.warn(`[WATCH] Could not stop channel ${channel.id}: ${error}`);
+    }
+
+    if (this.channels[channel.calendarId]?.id === channel.id) {
+      delete this.channels[channel.calendarId];
+    }
+  }
+
+  private async loadChannels(): Promise<void> {
+    try {
+      if (fs.existsSync(this.config.channelStoragePath)) {
+        const data = await fs.promises.readFile(this.config.channelStoragePath, 'utf8');
+        this.channels = JSON.parse(data);
+        this.logger.debug(`[WATCH] Loaded ${Object.keys(this.channels).length} channels`);
+      }
+    } catch (error) {
+      this.logger.error('[WATCH] Error loading channels:', error);
+      this.channels = {};
+    }
+  }
+
+  private async saveChannels(): Promise<void> {
+    try {
+      // Channel tokens authenticate the callbacks, so the file is only readable by the owner
+      await writeFileAtomic(this.config.channelStoragePath, JSON.stringify(this.channels, null, 2));
+    } catch (error) {
+      this.logger.error('[WATCH] Error saving channels:', error);
+    }
+  }
+}
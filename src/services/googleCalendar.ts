@@ -1,18 +1,109 @@
-import { OAuth2Client } from 'google-auth-library';
+import crypto from 'crypto';
+import { Credentials, JWT, OAuth2Client } from 'google-auth-library';
 import { calendar_v3, google } from 'googleapis';
 import { OAuthHandler } from '../auth/oauthHandler.js';
 import { TokenManager } from '../auth/tokenManager.js';
+import { CalendarSync, SyncResult } from './calendarSync.js';
+import { GoogleRequestExecutor } from './googleRequestExecutor.js';
 import { ILogger } from '../utils/logger.js';
+import { googleApiRequestsTotal, googleApiRequestDuration } from '../utils/metrics.js';
+import { AvailableSlot, TimeInterval, findAvailableSlots } from '../utils/availability.js';
+import { getRuleCount, splitRecurrence } from '../utils/recurrence.js';
 import {
   ListEventsParams,
+  ListCalendarsParams,
+  CreateCalendarParams,
+  UpdateCalendarParams,
+  SubscribeCalendarParams,
+  UpdateCalendarListEntryParams,
+  ListAclRulesParams,
+  CreateAclRuleParams,
+  UpdateAclRuleParams,
   GetCalendarParams,
   GetEventParams,
   CreateEventParams,
   UpdateEventParams,
   DeleteEventParams,
-  ListColorsParams
+  ListColorsParams,
+  GetFreeBusyParams,
+  FindAvailableSlotsParams,
+  ListEventInstancesParams,
+  RecurrenceScope,
+  EventChanges
 } from '../types/index.js';
 
+// Read-only fields that must not be copied when an event is used as a template
+const READ_ONLY_EVENT_FIELDS: (keyof calendar_v3.Schema$Event)[] = [
+  'id', 'etag', 'kind', 'htmlLink', 'iCalUID', 'created', 'updated', 'creator', 'organizer',
+  'recurringEventId', 'originalStartTime', 'sequence', 'status', 'hangoutLink'
+];
+
+// Body of an event PATCH request, in which fields set to null are cleared. The generated types
+// only allow null on some fields, although Google clears any field sent as null.
+type EventPatch = { [Field in keyof calendar_v3.Schema$Event]?: calendar_v3.Schema$Event[Field] | null };
+
+// Polling used while Google is still creating a requested conference
+const CONFERENCE_POLL_ATTEMPTS = 5;
+const CONFERENCE_POLL_INTERVAL = 1000; // 1 second
+
+/**
+ * Wraps a resource of the Calendar API (e.g. events) so each request runs through the executor, and each
+ * of its attempts is counted, timed and logged by method and HTTP status code. Attempts that get no
+ * response are reported with status "error".
+ */
+const instrumentResource = (resourceName: string, resource: object, executor: GoogleRequestExecutor, logger: ILogger): object =>
+  // Proxies of empty objects, since the API client exposes read-only properties a proxy could not replace
+  new Proxy({}, {
+    get: (_, methodName) => {
+      const method = Reflect.get(resource, methodName);
+      if (typeof methodName !== 'string' || typeof method !== 'function') {
+        return method;
+      }
+
+      const apiMethod = `${resourceName}.${methodName}`;
+      return (...args: unknown[]) => executor.execute(apiMethod, async () => {
+        const endTimer = googleApiRequestDuration.startTimer({ method: apiMethod });
+        let status = 'error';
+
+        try {
+          const response = await method.apply(resource, args);
+          status = String(response?.status ?? 200);
+          return response;
+        } catch (error: any) {
+          status = String(error?.response?.status ?? 'error');
+          throw error;
+        } finally {
+          const duration = endTimer({ status });
+          googleApiRequestsTotal.inc({ method: apiMethod, status });
+          logger.debug(`[GCAL] API request ${apiMethod} | Status: ${status} | Duration: ${Math.round(duration * 1000)}ms`);
+        }
+      });
+    }
+  });
+
+/**
+ * Wraps a Calendar API client so the requests of all its resources are instrumented
+ */
+const instrumentCalendar = (calendar: calendar_v3.Calendar, executor: GoogleRequestExecutor, logger: ILogger): calendar_v3.Calendar => {
+  const resources: { [resourceName: string]: object } = {};
+
+  return new Proxy({}, {
+    get: (_, resourceName) => {
+      const resource = Reflect.get(calendar, resourceName);
+      if (typeof resourceName !== 'string' || resourceName === 'context' || typeof resource !== 'object' || !resource) {
+        return resource;
+      }
+
+      resources[resourceName] ??= instrumentResource(resourceName, resource, executor, logger);
+      return resources[resourceName];
+    }
+  }) as calendar_v3.Calendar;
+};
+
+// Listener notified after events are created, updated or deleted through the service.
+// An empty list of event IDs means the calendar itself changed.
+export type EventsChangedListener = (calendarId: string, eventIds: string[]) => void;
+
 /**
  * Service to interact with the Google Calendar API
  */
@@ -20,15 +111,54 @@ export class GoogleCalendarService {
   private calendar: calendar_v3.Calendar | null = null;
   private oauthHandler: OAuthHandler;
   private tokenManager: TokenManager;
+  private requestExecutor: GoogleRequestExecutor;
+  private calendarSync: CalendarSync | undefined;
+  private serviceAccountClient: JWT | null = null;
+  private changeListeners: EventsChangedListener[] = [];
   private logger: ILogger;
 
-  constructor(oauthHandler: OAuthHandler, tokenManager: TokenManager, logger: ILogger) {
+  constructor(oauthHandler: OAuthHandler, tokenManager: TokenManager, requestExecutor: GoogleRequestExecutor, logger: ILogger, calendarSync?: CalendarSync) {
     this.oauthHandler = oauthHandler;
     this.tokenManager = tokenManager;
+    this.requestExecutor = requestExecutor;
+    this.calendarSync = calendarSync;
     this.logger = logger;
     this.logger.debug('[GCAL] Service instantiated');
   }
 
+  /**
+   * Registers a listener for changes made through the service
+   */
+  public onEventsChanged(listener: EventsChangedListener): void {
+    this.changeListeners.push(listener);
+  }
+
+  private emitEventsChanged(calendarId: string, eventIds: string[]): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(calendarId, eventIds);
+      } catch (error) {
+        this.logger.error('[GCAL] Error notifying event changes:', error);
+      }
+    }
+  }
+
+  /**
+   * Authenticates the service with a service account client instead of stored user tokens
+   */
+  public useServiceAccount(client: JWT): void {
+    this.logger.debug('[GCAL] Using service account credentials');
+    this.serviceAccountClient = client;
+    this.calendar = this.createCalendarClient(client);
+  }
+
+  /**
+   * Creates an instrumented API client. Retries are left to the request executor instead of the client's own.
+   */
+  private createCalendarClient(auth: OAuth2Client | JWT): calendar_v3.Calendar {
+    return instrumentCalendar(google.calendar({ version: 'v3', auth, retry: false }), this.requestExecutor, this.logger);
+  }
+
   /**
    * Initializes the Google Calendar API client
    */
@@ -36,6 +166,13 @@ export class GoogleCalendarService {
     this.logger.debug('[GCAL] Initializing client');
 
     try {
+      // The service account client is ready once it can obtain an access token
+      if (this.serviceAccountClient) {
+        await this.serviceAccountClient.authorize();
+        this.logger.debug('[GCAL] Service account client successfully initialized');
+        return true;
+      }
+
       const hasTokens = await this.tokenManager.hasValidTokens();
       this.logger.debug(`[GCAL] Tokens available: ${hasTokens ? 'yes' : 'no'}`);
 
@@ -61,12 +198,23 @@ export class GoogleCalendarService {
     }
   }
 
+  /**
+   * Stops the background work of the service, such as the token refresh
+   */
+  public stop(): void {
+    this.tokenManager.stopTokenRefresh();
+  }
+
   /**
    * Checks if the service is authenticated
    */
   public async isAuthenticated(): Promise<boolean> {
     this.logger.debug('[GCAL] Checking authentication');
     try {
+      if (this.serviceAccountClient) {
+        return true;
+      }
+
       const hasTokens = await this.tokenManager.hasValidTokens();
       this.logger.debug(`[GCAL] Status: ${hasTokens ? 'authenticated' : 'not authenticated'}`);
       return hasTokens;
@@ -76,6 +224,27 @@ export class GoogleCalendarService {
     }
   }
 
+  /**
+   * Gets the email of the Google user whose tokens are stored, from the ID token verified when the
+   * account was linked
+   *
+   * @returns The email, or null when no tokens are stored or they carry no ID token
+   */
+  public async getLinkedEmail(): Promise<string | null> {
+    const tokens = await this.tokenManager.getTokens();
+    const payload = tokens?.id_token?.split('.')[1];
+    if (!payload) {
+      return null;
+    }
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      return typeof claims.email === 'string' ? claims.email.toLowerCase() : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Refreshes the access token using the refresh token
    */
@@ -99,6 +268,11 @@ export class GoogleCalendarService {
         newTokens.credentials.refresh_token = tokens.refresh_token;
       }
 
+      // Keep the ID token that identifies the linked Google user
+      if (!newTokens.credentials.id_token && tokens.id_token) {
+        newTokens.credentials.id_token = tokens.id_token;
+      }
+
       this.logger.debug('[GCAL] Saving updated tokens');
       await this.tokenManager.saveTokens(newTokens.credentials);
 
@@ -129,7 +303,7 @@ export class GoogleCalendarService {
       this.logger.debug('[GCAL] Creating API client');
       const auth = this.oauthHandler.getClient();
       auth.setCredentials(tokens);
-      this.calendar = google.calendar({ version: 'v3', auth });
+      this.calendar = this.createCalendarClient(auth);
       this.logger.debug('[GCAL] Client successfully configured');
     } catch (error) {
       this.logger.error('[GCAL] Error setting up client:', error);
@@ -138,38 +312,20 @@ export class GoogleCalendarService {
   }
 
   /**
-   * Processes the authorization code received from the OAuth callback
+   * Stores the tokens obtained by the authorization flow
    */
-  public async handleAuthCode(code: string): Promise<void> {
-    this.logger.debug('[GCAL] Processing authorization code');
+  public async setTokens(tokens: Credentials): Promise<void> {
+    this.logger.debug('[GCAL] Storing tokens');
 
     try {
-      this.logger.debug('[GCAL] Exchanging code for tokens');
-      const tokens = await this.oauthHandler.exchangeCode(code);
-
-      this.logger.debug('[GCAL] Code successfully exchanged');
       await this.tokenManager.saveTokens(tokens);
-
-      this.logger.debug('[GCAL] Setting up client');
       await this.setupClientWithTokens();
-
-      this.logger.debug('[GCAL] Authorization successfully processed');
     } catch (error) {
-      this.logger.error('[GCAL] Error processing code:', error);
+      this.logger.error('[GCAL] Error storing tokens:', error);
       throw error;
     }
   }
 
-  /**
-   * Gets the URL for OAuth authentication
-   */
-  public getAuthUrl(): string {
-    this.logger.debug('[GCAL] Generating authentication URL');
-    const authUrl = this.oauthHandler.generateAuthUrl();
-    this.logger.debug(`[GCAL] URL generated: ${authUrl}`);
-    return authUrl;
-  }
-
   /**
    * Revokes the current access
    */
@@ -177,7 +333,15 @@ export class GoogleCalendarService {
     this.logger.debug('[GCAL] Starting access revocation');
 
     try {
-      const tokens = await this.tokenManager.getTokens();
+      if (this.serviceAccountClient) {
+        throw new Error('Service account access cannot be revoked here, remove its key or delegation in the Google admin console');
+      }
+
+      // Tokens that cannot be loaded (e.g. encrypted with a key no longer configured) are still cleared
+      const tokens = await this.tokenManager.getTokens().catch(error => {
+        this.logger.warn(`[GCAL] Stored tokens could not be loaded, clearing them without revoking: ${error}`);
+        return null;
+      });
 
       if (tokens && tokens.access_token) {
         this.logger.debug('[GCAL] Revoking tokens');
@@ -188,6 +352,7 @@ export class GoogleCalendarService {
       await this.tokenManager.clearTokens();
 
       this.calendar = null;
+      await this.calendarSync?.clear();
       this.logger.info('[GCAL] Access successfully revoked');
     } catch (error) {
       this.logger.error('[GCAL] Error revoking access:', error);
@@ -196,10 +361,10 @@ export class GoogleCalendarService {
   }
 
   /**
-   * Lists all available calendars
+   * Lists the calendars in the user's calendar list
    */
-  public async listCalendars(): Promise<calendar_v3.Schema$CalendarList> {
-    this.logger.debug('[GCAL] Listing calendars');
+  public async listCalendars(params: ListCalendarsParams = {}): Promise<calendar_v3.Schema$CalendarList> {
+    this.logger.debug(`[GCAL] Listing calendars | Params: ${JSON.stringify(params)}`);
 
     try {
       if (!this.calendar) {
@@ -208,7 +373,11 @@ export class GoogleCalendarService {
       }
 
       this.logger.debug('[GCAL] Requesting calendarList.list');
-      const response = await this.calendar.calendarList.list();
+      const response = await this.calendar.calendarList.list({
+        minAccessRole: params.minAccessRole,
+        showHidden: params.showHidden,
+        showDeleted: params.showDeleted
+      });
       this.logger.debug(`[GCAL] Found ${response.data.items?.length || 0} calendars`);
       return response.data;
     } catch (error) {
@@ -239,6 +408,276 @@ export class GoogleCalendarService {
     }
   }
 
+  /**
+   * Creates a secondary calendar owned by the user
+   */
+  public async createCalendar(params: CreateCalendarParams): Promise<calendar_v3.Schema$Calendar> {
+    this.logger.debug(`[GCAL] Creating calendar: ${params.summary}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      this.logger.debug('[GCAL] Requesting calendars.insert');
+      const response = await this.calendar.calendars.insert({ requestBody: params });
+
+      this.logger.debug(`[GCAL] Calendar created | ID: ${response.data.id}`);
+      this.emitEventsChanged(response.data.id!, []);
+      return response.data;
+    } catch (error) {
+      this.logger.error('[GCAL] Error creating calendar:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Updates the metadata of a calendar
+   */
+  public async updateCalendar(params: UpdateCalendarParams): Promise<calendar_v3.Schema$Calendar> {
+    const { calendarId, ...changes } = params;
+    this.logger.debug(`[GCAL] Updating calendar: ${calendarId}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      this.logger.debug('[GCAL] Requesting calendars.patch');
+      const response = await this.calendar.calendars.patch({ calendarId, requestBody: changes });
+
+      this.logger.debug(`[GCAL] Calendar updated: ${response.data.summary}`);
+      this.emitEventsChanged(calendarId, []);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`[GCAL] Error updating calendar ${calendarId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a secondary calendar and all of its events
+   */
+  public async deleteCalendar(calendarId: string): Promise<void> {
+    this.logger.debug(`[GCAL] Deleting calendar: ${calendarId}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      // The primary calendar can only be cleared, never deleted
+      if (calendarId === 'primary') {
+        throw new Error('The primary calendar cannot be deleted');
+      }
+
+      this.logger.debug('[GCAL] Requesting calendars.delete');
+      await this.calendar.calendars.delete({ calendarId });
+
+      this.logger.debug(`[GCAL] Calendar deleted: ${calendarId}`);
+      await this.calendarSync?.remove(calendarId);
+      this.emitEventsChanged(calendarId, []);
+    } catch (error) {
+      this.logger.error(`[GCAL] Error deleting calendar ${calendarId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Adds an existing calendar (e.g. shared by another user) to the user's calendar list
+   */
+  public async subscribeCalendar(params: SubscribeCalendarParams): Promise<calendar_v3.Schema$CalendarListEntry> {
+    const { calendarId, ...settings } = params;
+    this.logger.debug(`[GCAL] Subscribing to calendar: ${calendarId}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      this.logger.debug('[GCAL] Requesting calendarList.insert');
+      const response = await this.calendar.calendarList.insert({
+        requestBody: { id: calendarId, ...settings }
+      });
+
+      this.logger.debug(`[GCAL] Subscribed to calendar: ${response.data.summary}`);
+      this.emitEventsChanged(calendarId, []);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`[GCAL] Error subscribing to calendar ${calendarId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a calendar from the user's calendar list without deleting it
+   */
+  public async unsubscribeCalendar(calendarId: string): Promise<void> {
+    this.logger.debug(`[GCAL] Unsubscribing from calendar: ${calendarId}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      this.logger.debug('[GCAL] Requesting calendarList.delete');
+      await this.calendar.calendarList.delete({ calendarId });
+
+      this.logger.debug(`[GCAL] Unsubscribed from calendar: ${calendarId}`);
+      await this.calendarSync?.remove(calendarId);
+      this.emitEventsChanged(calendarId, []);
+    } catch (error) {
+      this.logger.error(`[GCAL] Error unsubscribing from calendar ${calendarId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Updates the user's display settings of a calendar in the calendar list
+   */
+  public async updateCalendarListEntry(params: UpdateCalendarListEntryParams): Promise<calendar_v3.Schema$CalendarListEntry> {
+    const { calendarId, ...settings } = params;
+    this.logger.debug(`[GCAL] Updating calendar list entry: ${calendarId}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      this.logger.debug('[GCAL] Requesting calendarList.patch');
+      const response = await this.calendar.calendarList.patch({
+        calendarId,
+        // RGB colors are only accepted when this flag is set
+        colorRgbFormat: settings.backgroundColor || settings.foregroundColor ? true : undefined,
+        requestBody: settings
+      });
+
+      this.logger.debug(`[GCAL] Calendar list entry updated: ${response.data.summary}`);
+      this.emitEventsChanged(calendarId, []);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`[GCAL] Error updating calendar list entry ${calendarId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the sharing rules (ACL) of a calendar
+   */
+  public async listAclRules(params: ListAclRulesParams): Promise<calendar_v3.Schema$Acl> {
+    this.logger.debug(`[GCAL] Listing ACL rules | Calendar: ${params.calendarId}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      this.logger.debug('[GCAL] Requesting acl.list');
+      const response = await this.calendar.acl.list({
+        calendarId: params.calendarId,
+        showDeleted: params.showDeleted
+      });
+
+      this.logger.debug(`[GCAL] Found ${response.data.items?.length || 0} ACL rules`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`[GCAL] Error listing ACL rules of calendar ${params.calendarId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Shares a calendar with a user, group, domain or the public
+   */
+  public async createAclRule(params: CreateAclRuleParams): Promise<calendar_v3.Schema$AclRule> {
+    const { calendarId, role, scopeType, scopeValue, sendNotifications } = params;
+    this.logger.debug(`[GCAL] Creating ACL rule | Calendar: ${calendarId} | Scope: ${scopeType}:${scopeValue || ''} | Role: ${role}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      if (scopeType !== 'default' && !scopeValue) {
+        throw new Error(`A scope value is required for the ${scopeType} scope`);
+      }
+
+      this.logger.debug('[GCAL] Requesting acl.insert');
+      const response = await this.calendar.acl.insert({
+        calendarId,
+        sendNotifications,
+        requestBody: {
+          role,
+          scope: { type: scopeType, value: scopeType === 'default' ? undefined : scopeValue }
+        }
+      });
+
+      this.logger.debug(`[GCAL] ACL rule created | ID: ${response.data.id}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`[GCAL] Error creating ACL rule of calendar ${calendarId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Changes the role granted by a sharing rule
+   */
+  public async updateAclRule(params: UpdateAclRuleParams): Promise<calendar_v3.Schema$AclRule> {
+    const { calendarId, ruleId, role, sendNotifications } = params;
+    this.logger.debug(`[GCAL] Updating ACL rule | Calendar: ${calendarId} | Rule: ${ruleId} | Role: ${role}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      this.logger.debug('[GCAL] Requesting acl.patch');
+      const response = await this.calendar.acl.patch({
+        calendarId,
+        ruleId,
+        sendNotifications,
+        requestBody: { role }
+      });
+
+      this.logger.debug(`[GCAL] ACL rule updated | ID: ${response.data.id}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`[GCAL] Error updating ACL rule ${ruleId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a sharing rule, revoking the access it granted
+   */
+  public async deleteAclRule(calendarId: string, ruleId: string): Promise<void> {
+    this.logger.debug(`[GCAL] Deleting ACL rule | Calendar: ${calendarId} | Rule: ${ruleId}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      this.logger.debug('[GCAL] Requesting acl.delete');
+      await this.calendar.acl.delete({ calendarId, ruleId });
+      this.logger.debug(`[GCAL] ACL rule deleted | ID: ${ruleId}`);
+    } catch (error) {
+      this.logger.error(`[GCAL] Error deleting ACL rule ${ruleId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Lists events from a calendar
    */
@@ -266,6 +705,10 @@ export class GoogleCalendarService {
         throw new Error('Calendar client not initialized');
       }
 
+      if (this.calendarSync?.canServe(params)) {
+        return await this.calendarSync.listEvents(this.calendar, params);
+      }
+
       this.logger.debug('[GCAL] Requesting events.list');
       const response = await this.calendar.events.list(params);
       this.logger.debug(`[GCAL] Found ${response.data.items?.length || 0} events`);
@@ -277,9 +720,10 @@ export class GoogleCalendarService {
   }
 
   /**
-   * Gets details of a specific event
+   * Gets details of a specific event.
+   * Writes pass useCache=false so they always build on the latest version of the event.
    */
-  public async getEvent(calendarId: string, eventId: string): Promise<calendar_v3.Schema$Event> {
+  public async getEvent(calendarId: string, eventId: string, useCache = true): Promise<calendar_v3.Schema$Event> {
     this.logger.debug(`[GCAL] Getting event | ID: ${eventId} | Calendar: ${calendarId}`);
 
     try {
@@ -288,6 +732,13 @@ export class GoogleCalendarService {
         throw new Error('Calendar client not initialized');
       }
 
+      if (useCache && this.calendarSync?.isEnabled()) {
+        const cached = await this.calendarSync.getEvent(this.calendar, calendarId, eventId);
+        if (cached) {
+          return cached;
+        }
+      }
+
       this.logger.debug('[GCAL] Requesting events.get');
       const response = await this.calendar.events.get({
         calendarId,
@@ -317,22 +768,33 @@ export class GoogleCalendarService {
       this.logger.debug('[GCAL] Requesting events.insert');
       const response = await this.calendar.events.insert({
         calendarId,
-        requestBody: eventData
+        conferenceDataVersion: 1,
+        requestBody: this.prepareConferenceRequest(eventData)
       });
 
       this.logger.debug(`[GCAL] Event created | ID: ${response.data.id}`);
-      return response.data;
+      this.emitEventsChanged(calendarId, [response.data.id!]);
+      return await this.waitForConference(calendarId, response.data);
     } catch (error) {
       this.logger.error('[GCAL] Error creating event:', error);
       throw error;
+    } finally {
+      await this.calendarSync?.invalidate(calendarId);
     }
   }
 
   /**
-   * Updates an existing event
+   * Updates an existing event, optionally across the occurrences of a recurring series.
+   * Uses PATCH semantics: fields that are not sent are left unchanged.
    */
-  public async updateEvent(calendarId: string, eventId: string, eventData: any): Promise<calendar_v3.Schema$Event> {
-    this.logger.debug(`[GCAL] Updating event | ID: ${eventId} | Calendar: ${calendarId}`);
+  public async updateEvent(
+    calendarId: string,
+    eventId: string,
+    changes: EventChanges,
+    scope: RecurrenceScope = 'thisEvent',
+    sendUpdates?: string
+  ): Promise<calendar_v3.Schema$Event> {
+    this.logger.debug(`[GCAL] Updating event | ID: ${eventId} | Calendar: ${calendarId} | Scope: ${scope} | Notifications: ${sendUpdates || 'default'}`);
 
     try {
       if (!this.calendar) {
@@ -340,26 +802,95 @@ export class GoogleCalendarService {
         throw new Error('Calendar client not initialized');
       }
 
-      this.logger.debug('[GCAL] Requesting events.update');
-      const response = await this.calendar.events.update({
+      let target: calendar_v3.Schema$Event | undefined;
+      let targetId = eventId;
+      if (scope !== 'thisEvent') {
+        const event = await this.getEvent(calendarId, eventId, false);
+        target = event;
+
+        if (event.recurringEventId) {
+          if (scope === 'thisAndFollowing') {
+            const created = await this.splitSeries(calendarId, event, changes, sendUpdates);
+            this.emitEventsChanged(calendarId, [event.recurringEventId, created.id!]);
+            return await this.waitForConference(calendarId, created);
+          }
+          targetId = event.recurringEventId;
+          target = undefined;
+        }
+      }
+
+      const patch = await this.buildEventPatch(calendarId, targetId, changes, target);
+
+      this.logger.debug('[GCAL] Requesting events.patch');
+      const response = await this.calendar.events.patch({
         calendarId,
-        eventId,
-        requestBody: eventData
+        eventId: targetId,
+        sendUpdates,
+        conferenceDataVersion: 1,
+        requestBody: patch as calendar_v3.Schema$Event
       });
 
       this.logger.debug(`[GCAL] Event updated | ID: ${response.data.id}`);
-      return response.data;
+      this.emitEventsChanged(calendarId, [targetId]);
+      return await this.waitForConference(calendarId, response.data);
     } catch (error) {
       this.logger.error(`[GCAL] Error updating event ${eventId}:`, error);
       throw error;
+    } finally {
+      await this.calendarSync?.invalidate(calendarId);
     }
   }
 
   /**
-   * Deletes an event from the calendar
+   * Turns the requested changes into a PATCH body: cleared fields become null and
+   * attendee additions/removals are merged into the current attendee list
    */
-  public async deleteEvent(calendarId: string, eventId: string, sendUpdates?: string): Promise<any> {
-    this.logger.debug(`[GCAL] Deleting event | ID: ${eventId} | Calendar: ${calendarId} | Notifications: ${sendUpdates || 'default'}`);
+  private async buildEventPatch(
+    calendarId: string,
+    eventId: string,
+    changes: EventChanges,
+    current?: calendar_v3.Schema$Event
+  ): Promise<EventPatch> {
+    const { clearFields, addAttendees, removeAttendees, ...fields } = changes;
+    const patch: EventPatch = this.prepareConferenceRequest({ ...fields });
+
+    for (const field of clearFields || []) {
+      patch[field] = null;
+    }
+
+    if (addAttendees?.length || removeAttendees?.length) {
+      let attendees: calendar_v3.Schema$EventAttendee[] = patch.attendees || [];
+      if (!patch.attendees && !clearFields?.includes('attendees')) {
+        const event = current || await this.getEvent(calendarId, eventId, false);
+        attendees = event.attendees || [];
+      }
+
+      const removed = new Set((removeAttendees || []).map(email => email.toLowerCase()));
+      attendees = attendees.filter(attendee => !removed.has((attendee.email || '').toLowerCase()));
+
+      for (const attendee of addAttendees || []) {
+        if (!attendees.some(existing => existing.email?.toLowerCase() === attendee.email.toLowerCase())) {
+          attendees.push(attendee);
+        }
+      }
+
+      this.logger.debug(`[GCAL] Attendees merged | Added: ${addAttendees?.length || 0} | Removed: ${removed.size} | Total: ${attendees.length}`);
+      patch.attendees = attendees;
+    }
+
+    return patch;
+  }
+
+  /**
+   * Deletes an event from the calendar, optionally across the occurrences of a recurring series
+   */
+  public async deleteEvent(
+    calendarId: string,
+    eventId: string,
+    sendUpdates?: string,
+    scope: RecurrenceScope = 'thisEvent'
+  ): Promise<any> {
+    this.logger.debug(`[GCAL] Deleting event | ID: ${eventId} | Calendar: ${calendarId} | Notifications: ${sendUpdates || 'default'} | Scope: ${scope}`);
 
     try {
       if (!this.calendar) {
@@ -367,21 +898,374 @@ export class GoogleCalendarService {
         throw new Error('Calendar client not initialized');
       }
 
+      let targetId = eventId;
+      if (scope !== 'thisEvent') {
+        const event = await this.getEvent(calendarId, eventId, false);
+
+        if (event.recurringEventId) {
+          targetId = event.recurringEventId;
+
+          if (scope === 'thisAndFollowing') {
+            const master = await this.getEvent(calendarId, event.recurringEventId, false);
+
+            // Deleting from the first occurrence on is the same as deleting the whole series
+            if (!this.isFirstOccurrence(master, event)) {
+              const { before } = await this.splitRecurrenceAt(calendarId, master, event);
+              this.logger.debug(`[GCAL] Truncating series ${master.id} before ${event.originalStartTime?.dateTime || event.originalStartTime?.date}`);
+              const response = await this.calendar.events.patch({
+                calendarId,
+                eventId: event.recurringEventId,
+                sendUpdates,
+                requestBody: { recurrence: before }
+              });
+
+              this.logger.debug('[GCAL] Following occurrences successfully deleted');
+              this.emitEventsChanged(calendarId, [targetId]);
+              return response.data;
+            }
+          }
+        }
+      }
+
       this.logger.debug('[GCAL] Requesting events.delete');
       const response = await this.calendar.events.delete({
         calendarId,
-        eventId,
+        eventId: targetId,
         sendUpdates
       });
 
       this.logger.debug('[GCAL] Event successfully deleted');
+      this.emitEventsChanged(calendarId, [targetId]);
       return response.data;
     } catch (error) {
       this.logger.error(`[GCAL] Error deleting event ${eventId}:`, error);
       throw error;
+    } finally {
+      await this.calendarSync?.invalidate(calendarId);
+    }
+  }
+
+  /**
+   * Creates an event from a natural-language text
+   */
+  public async quickAddEvent(calendarId: string, text: string, sendUpdates?: string): Promise<calendar_v3.Schema$Event> {
+    this.logger.debug(`[GCAL] Quick adding event | Calendar: ${calendarId} | Text: ${text}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      this.logger.debug('[GCAL] Requesting events.quickAdd');
+      const response = await this.calendar.events.quickAdd({
+        calendarId,
+        text,
+        sendUpdates
+      });
+
+      this.logger.debug(`[GCAL] Event created | ID: ${response.data.id}`);
+      this.emitEventsChanged(calendarId, [response.data.id!]);
+      return response.data;
+    } catch (error) {
+      this.logger.error('[GCAL] Error quick adding event:', error);
+      throw error;
+    } finally {
+      await this.calendarSync?.invalidate(calendarId);
     }
   }
 
+  /**
+   * Moves an event to another calendar
+   */
+  public async moveEvent(
+    calendarId: string,
+    eventId: string,
+    destinationCalendarId: string,
+    sendUpdates?: string
+  ): Promise<calendar_v3.Schema$Event> {
+    this.logger.debug(`[GCAL] Moving event | ID: ${eventId} | From: ${calendarId} | To: ${destinationCalendarId}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      this.logger.debug('[GCAL] Requesting events.move');
+      const response = await this.calendar.events.move({
+        calendarId,
+        eventId,
+        destination: destinationCalendarId,
+        sendUpdates
+      });
+
+      this.logger.debug(`[GCAL] Event moved | ID: ${response.data.id}`);
+      this.emitEventsChanged(calendarId, [eventId]);
+      this.emitEventsChanged(destinationCalendarId, [eventId]);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`[GCAL] Error moving event ${eventId}:`, error);
+      throw error;
+    } finally {
+      await this.calendarSync?.invalidate(calendarId);
+      await this.calendarSync?.invalidate(destinationCalendarId);
+    }
+  }
+
+  /**
+   * Lists the occurrences of a recurring event
+   */
+  public async listEventInstances(params: ListEventInstancesParams): Promise<calendar_v3.Schema$Events> {
+    this.logger.debug(`[GCAL] Listing instances | Event: ${params.eventId} | Calendar: ${params.calendarId}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      this.logger.debug('[GCAL] Requesting events.instances');
+      const response = await this.calendar.events.instances(params);
+      this.logger.debug(`[GCAL] Found ${response.data.items?.length || 0} instances`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`[GCAL] Error listing instances of event ${params.eventId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Registers a push notification channel for changes to a calendar's events
+   */
+  public async watchEvents(calendarId: string, channel: calendar_v3.Schema$Channel): Promise<calendar_v3.Schema$Channel> {
+    this.logger.debug(`[GCAL] Watching events | Calendar: ${calendarId} | Channel: ${channel.id}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      this.logger.debug('[GCAL] Requesting events.watch');
+      const response = await this.calendar.events.watch({
+        calendarId,
+        requestBody: channel
+      });
+
+      this.logger.debug(`[GCAL] Channel registered | ID: ${response.data.id} | Expiration: ${response.data.expiration ? new Date(parseInt(response.data.expiration)).toISOString() : 'N/A'}`);
+      return response.data;
+    } catch (error) {
+      this.logger.error(`[GCAL] Error watching events of calendar ${calendarId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stops a push notification channel
+   */
+  public async stopChannel(channelId: string, resourceId: string): Promise<void> {
+    this.logger.debug(`[GCAL] Stopping channel | ID: ${channelId}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      this.logger.debug('[GCAL] Requesting channels.stop');
+      await this.calendar.channels.stop({
+        requestBody: { id: channelId, resourceId }
+      });
+
+      this.logger.debug('[GCAL] Channel successfully stopped');
+    } catch (error) {
+      this.logger.error(`[GCAL] Error stopping channel ${channelId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Synchronizes the local copy of a calendar and returns the events that changed
+   */
+  public async syncCalendar(calendarId: string): Promise<SyncResult> {
+    this.logger.debug(`[GCAL] Synchronizing calendar: ${calendarId}`);
+
+    if (!this.calendar) {
+      this.logger.error('[GCAL] Client not initialized');
+      throw new Error('Calendar client not initialized');
+    }
+
+    if (!this.calendarSync) {
+      throw new Error('Calendar sync not configured');
+    }
+
+    return this.calendarSync.sync(this.calendar, calendarId);
+  }
+
+  /**
+   * Splits a recurring series at the given occurrence: the original series ends right before it
+   * and a new series with the requested changes starts at it
+   */
+  private async splitSeries(
+    calendarId: string,
+    occurrence: calendar_v3.Schema$Event,
+    changes: EventChanges,
+    sendUpdates?: string
+  ): Promise<calendar_v3.Schema$Event> {
+    if (!this.calendar || !occurrence.recurringEventId) {
+      throw new Error('Calendar client not initialized');
+    }
+
+    const master = await this.getEvent(calendarId, occurrence.recurringEventId, false);
+    const patch = await this.buildEventPatch(calendarId, occurrence.recurringEventId, changes, master);
+
+    // Changing the series from its first occurrence on is a plain update of the series
+    if (this.isFirstOccurrence(master, occurrence)) {
+      this.logger.debug('[GCAL] Split point is the first occurrence, updating the whole series');
+      const response = await this.calendar.events.patch({
+        calendarId,
+        eventId: occurrence.recurringEventId,
+        sendUpdates,
+        conferenceDataVersion: 1,
+        requestBody: patch as calendar_v3.Schema$Event
+      });
+      return response.data;
+    }
+
+    const { before, after } = await this.splitRecurrenceAt(calendarId, master, occurrence);
+
+    const series: EventPatch = {
+      ...master,
+      start: occurrence.start,
+      end: occurrence.end,
+      recurrence: after,
+      ...patch
+    };
+    READ_ONLY_EVENT_FIELDS.forEach(field => delete series[field]);
+    (Object.keys(series) as (keyof EventPatch)[]).forEach(field => series[field] === null && delete series[field]);
+
+    // The new series keeps the existing conference unless a new one was requested
+    if (series.conferenceData && !patch.conferenceData) {
+      series.conferenceData = { ...series.conferenceData, createRequest: undefined };
+    }
+
+    this.logger.debug('[GCAL] Creating series for following occurrences');
+    const created = await this.calendar.events.insert({
+      calendarId,
+      sendUpdates,
+      conferenceDataVersion: 1,
+      requestBody: series as calendar_v3.Schema$Event // without the cleared fields, removed above
+    });
+
+    this.logger.debug(`[GCAL] Truncating original series ${master.id}`);
+    await this.calendar.events.patch({
+      calendarId,
+      eventId: occurrence.recurringEventId,
+      sendUpdates,
+      requestBody: { recurrence: before }
+    });
+
+    this.logger.debug(`[GCAL] Series split | New series ID: ${created.data.id}`);
+    return created.data;
+  }
+
+  /**
+   * Fills in the request ID and the default solution (Google Meet) of a conference creation request
+   */
+  private prepareConferenceRequest<T extends { conferenceData?: any }>(eventData: T): T {
+    const createRequest = eventData.conferenceData?.createRequest;
+    if (!createRequest) {
+      return eventData;
+    }
+
+    return {
+      ...eventData,
+      conferenceData: {
+        ...eventData.conferenceData,
+        createRequest: {
+          ...createRequest,
+          requestId: createRequest.requestId || crypto.randomUUID(),
+          conferenceSolutionKey: createRequest.conferenceSolutionKey || { type: 'hangoutsMeet' }
+        }
+      }
+    };
+  }
+
+  /**
+   * Waits for a pending conference creation so the join URL can be returned with the event.
+   * The event is already saved, so a failed check returns it as last seen instead of failing the
+   * operation, which the client would retry and duplicate.
+   */
+  private async waitForConference(calendarId: string, event: calendar_v3.Schema$Event): Promise<calendar_v3.Schema$Event> {
+    let current = event;
+
+    for (let attempt = 1; attempt <= CONFERENCE_POLL_ATTEMPTS; attempt++) {
+      if (current.conferenceData?.createRequest?.status?.statusCode !== 'pending') {
+        break;
+      }
+
+      this.logger.debug(`[GCAL] Conference pending, checking again | Event: ${event.id} | Attempt: ${attempt}`);
+      await new Promise(resolve => setTimeout(resolve, CONFERENCE_POLL_INTERVAL));
+
+      try {
+        current = await this.getEvent(calendarId, event.id!, false);
+      } catch (error) {
+        this.logger.warn(`[GCAL] Could not check the conference, returning the event with it pending | Event: ${event.id}: ${error}`);
+        break;
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Computes the recurrence of a series split at the given occurrence
+   */
+  private async splitRecurrenceAt(
+    calendarId: string,
+    master: calendar_v3.Schema$Event,
+    occurrence: calendar_v3.Schema$Event
+  ): Promise<{ before: string[], after: string[] }> {
+    const recurrence = master.recurrence || [];
+    const splitAt = occurrence.originalStartTime || occurrence.start || {};
+
+    // A COUNT-bounded rule needs to know how many occurrences precede the split
+    let occurrencesBefore: number | undefined;
+    if (getRuleCount(recurrence) !== undefined && this.calendar) {
+      occurrencesBefore = 0;
+      let pageToken: string | undefined;
+      do {
+        const response = await this.calendar.events.instances({
+          calendarId,
+          eventId: master.id!,
+          showDeleted: true,
+          timeMax: splitAt.dateTime || `${splitAt.date}T00:00:00Z`,
+          maxResults: 2500,
+          pageToken
+        });
+        occurrencesBefore += response.data.items?.length || 0;
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+    }
+
+    return splitRecurrence(recurrence, splitAt, occurrencesBefore);
+  }
+
+  /**
+   * Checks if an occurrence is the first one of its series
+   */
+  private isFirstOccurrence(master: calendar_v3.Schema$Event, occurrence: calendar_v3.Schema$Event): boolean {
+    const seriesStart = master.start?.dateTime || master.start?.date;
+    const occurrenceStart = occurrence.originalStartTime?.dateTime || occurrence.originalStartTime?.date;
+
+    if (!seriesStart || !occurrenceStart) {
+      return false;
+    }
+
+    return Date.parse(seriesStart) === Date.parse(occurrenceStart);
+  }
+
   /**
    * Lists available colors for events and calendars
    */
@@ -403,4 +1287,89 @@ export class GoogleCalendarService {
       throw error;
     }
   }
+
+  /**
+   * Queries free/busy information for a set of calendars
+   */
+  public async getFreeBusy(params: GetFreeBusyParams): Promise<calendar_v3.Schema$FreeBusyResponse> {
+    this.logger.debug(`[GCAL] Querying free/busy | Items: ${params.items.join(', ')} | Range: ${params.timeMin} - ${params.timeMax}`);
+
+    try {
+      if (!this.calendar) {
+        this.logger.error('[GCAL] Client not initialized');
+        throw new Error('Calendar client not initialized');
+      }
+
+      this.logger.debug('[GCAL] Requesting freebusy.query');
+      const response = await this.calendar.freebusy.query({
+        requestBody: {
+          timeMin: params.timeMin,
+          timeMax: params.timeMax,
+          timeZone: params.timeZone,
+          items: params.items.map(id => ({ id }))
+        }
+      });
+
+      this.logger.debug(`[GCAL] Free/busy retrieved for ${Object.keys(response.data.calendars || {}).length} calendars`);
+      return response.data;
+    } catch (error) {
+      this.logger.error('[GCAL] Error querying free/busy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds open slots shared by several calendars within working hours.
+   * Free/busy data already fetched (e.g. merged from several accounts) may be passed in.
+   */
+  public async findAvailableSlots(params: FindAvailableSlotsParams, freeBusyData?: calendar_v3.Schema$FreeBusyResponse): Promise<{
+    slots: AvailableSlot[],
+    errors: { [calendarId: string]: calendar_v3.Schema$Error[] }
+  }> {
+    this.logger.debug(`[GCAL] Finding available slots | Calendars: ${params.calendarIds.join(', ')} | Duration: ${params.durationMinutes}min`);
+
+    const timeMin = Date.parse(params.timeMin);
+    const timeMax = Date.parse(params.timeMax);
+    if (isNaN(timeMin) || isNaN(timeMax) || timeMax <= timeMin) {
+      throw new Error('Invalid search range: timeMin and timeMax must be ISO dates with timeMin before timeMax');
+    }
+
+    const freeBusy = freeBusyData || await this.getFreeBusy({
+      timeMin: params.timeMin,
+      timeMax: params.timeMax,
+      items: params.calendarIds
+    });
+
+    const busy: TimeInterval[] = [];
+    const errors: { [calendarId: string]: calendar_v3.Schema$Error[] } = {};
+
+    for (const [calendarId, info] of Object.entries(freeBusy.calendars || {})) {
+      if (info.errors?.length) {
+        this.logger.warn(`[GCAL] Free/busy unavailable for ${calendarId}: ${info.errors.map(e => e.reason).join(', ')}`);
+        errors[calendarId] = info.errors;
+      }
+
+      for (const period of info.busy || []) {
+        if (period.start && period.end) {
+          busy.push({ start: Date.parse(period.start), end: Date.parse(period.end) });
+        }
+      }
+    }
+
+    const slots = findAvailableSlots(busy, {
+      timeMin,
+      timeMax,
+      durationMinutes: params.durationMinutes,
+      timeZone: params.timeZone || 'UTC',
+      workingHoursStart: params.workingHoursStart || '09:00',
+      workingHoursEnd: params.workingHoursEnd || '18:00',
+      workingDays: params.workingDays || [1, 2, 3, 4, 5],
+      slotIncrementMinutes: params.slotIncrementMinutes || 30,
+      bufferMinutes: params.bufferMinutes || 0,
+      maxResults: params.maxResults || 10
+    });
+
+    this.logger.debug(`[GCAL] Found ${slots.length} available slots`);
+    return { slots, errors };
+  }
 }
@@ -0,0 +1,139 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { calendar_v3, google } from 'googleapis';
+import { GoogleRequestExecutor, GoogleRequestConfig } from './googleRequestExecutor.js';
+import { createTestLogger } from '../testing/logger.js';
+
+interface FakeResponse {
+  status: number;
+  headers?: { [name: string]: string };
+  body?: unknown;
+}
+
+const CONFIG: GoogleRequestConfig = {
+  maxRetries: 2,
+  retryBaseDelay: 10,
+  retryMaxDelay: 1000,
+  rateLimit: 0,
+  rateBurst: 1
+};
+
+const rateLimitExceeded: FakeResponse = {
+  status: 403,
+  body: { error: { code: 403, message: 'Rate Limit Exceeded', errors: [{ reason: 'rateLimitExceeded', domain: 'usageLimits' }] } }
+};
+const serviceUnavailable: FakeResponse = { status: 503, body: { error: { code: 503, message: 'Backend Error' } } };
+const ok: FakeResponse = { status: 200, body: { kind: 'calendar#events', items: [] } };
+
+describe('GoogleRequestExecutor', () => {
+  let httpServer: http.Server;
+  let calendar: calendar_v3.Calendar;
+  let responses: FakeResponse[];
+  let requests: string[];
+
+  // Stands in for the Google Calendar API, answering each request with the next queued response
+  beforeEach(async () => {
+    responses = [];
+    requests = [];
+
+    httpServer = http.createServer((req, res) => {
+      requests.push(`${req.method} ${req.url?.split('?')[0]}`);
+      req.resume();
+
+      const response = responses.shift() ?? ok;
+      res.writeHead(response.status, { 'content-type': 'application/json', ...response.headers });
+      res.end(JSON.stringify(response.body ?? {}));
+    });
+    httpServer.listen(0, '127.0.0.1');
+    await new Promise(resolve => httpServer.once('listening', resolve));
+
+    const auth = new google.auth.OAuth2();
+    auth.setCredentials({ access_token: 'access-token', expiry_date: Date.now() + 60 * 60 * 1000 });
+    calendar = google.calendar({
+      version: 'v3',
+      auth,
+      retry: false,
+      rootUrl: `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/`
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  const listEvents = (executor: GoogleRequestExecutor) =>
+    executor.execute('events.list', () => calendar.events.list({ calendarId: 'primary' }));
+
+  it('retries a rate limited request after the Retry-After delay', async () => {
+    responses.push({ status: 429, headers: { 'retry-after': '0' } });
+
+    const response = await listEvents(new GoogleRequestExecutor(CONFIG, createTestLogger()));
+
+    expect(response.status).toBe(200);
+    expect(requests).toEqual(['GET /calendar/v3/calendars/primary/events', 'GET /calendar/v3/calendars/primary/events']);
+  });
+
+  it('retries a 403 with a rate limit reason', async () => {
+    responses.push(rateLimitExceeded, rateLimitExceeded);
+
+    const response = await listEvents(new GoogleRequestExecutor(CONFIG, createTestLogger()));
+
+    expect(response.status).toBe(200);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('does not retry a 403 without a rate limit reason', async () => {
+    responses.push({ status: 403, body: { error: { code: 403, errors: [{ reason: 'forbidden' }] } } });
+
+    await expect(listEvents(new GoogleRequestExecutor(CONFIG, createTestLogger()))).rejects.toMatchObject({ status: 403 });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('gives up after the maximum number of retries', async () => {
+    responses.push(serviceUnavailable, serviceUnavailable, serviceUnavailable, serviceUnavailable);
+
+    await expect(listEvents(new GoogleRequestExecutor(CONFIG, createTestLogger()))).rejects.toMatchObject({ status: 503 });
+    expect(requests).toHaveLength(CONFIG.maxRetries + 1);
+  });
+
+  it('does not retry a POST on a server error', async () => {
+    responses.push(serviceUnavailable);
+    const executor = new GoogleRequestExecutor(CONFIG, createTestLogger());
+
+    await expect(executor.execute('events.insert', () => calendar.events.insert({
+      calendarId: 'primary',
+      requestBody: { summary: 'Planning' }
+    }))).rejects.toMatchObject({ status: 503 });
+    expect(requests).toEqual(['POST /calendar/v3/calendars/primary/events']);
+  });
+
+  it('retries a rate limited POST, which Google did not apply', async () => {
+    responses.push({ status: 429, headers: { 'retry-after': '0' } });
+    const executor = new GoogleRequestExecutor(CONFIG, createTestLogger());
+
+    const response = await executor.execute('events.insert', () => calendar.events.insert({
+      calendarId: 'primary',
+      requestBody: { summary: 'Planning' }
+    }));
+
+    expect(response.status).toBe(200);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('does not wait for a Retry-After longer than the maximum delay', async () => {
+    responses.push({ status: 429, headers: { 'retry-after': '120' } });
+    const logger = createTestLogger();
+
+    await expect(listEvents(new GoogleRequestExecutor(CONFIG, logger))).rejects.toMatchObject({ status: 429 });
+    expect(requests).toHaveLength(1);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Retry-After exceeds'));
+  });
+
+  it('does not retry when retries are disabled', async () => {
+    responses.push(serviceUnavailable);
+
+    await expect(listEvents(new GoogleRequestExecutor({ ...CONFIG, maxRetries: 0 }, createTestLogger()))).rejects.toMatchObject({ status: 503 });
+    expect(requests).toHaveLength(1);
+  });
+});
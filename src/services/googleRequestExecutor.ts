@@ -0,0 +1,140 @@
+import { ILogger } from '../utils/logger.js';
+import { TokenBucket } from '../utils/tokenBucket.js';
+import { googleApiRetriesTotal } from '../utils/metrics.js';
+
+export interface GoogleRequestConfig {
+  maxRetries: number; // 0 disables retries
+  retryBaseDelay: number; // in milliseconds, doubled with each retry
+  retryMaxDelay: number; // in milliseconds, also the longest Retry-After honored
+  rateLimit: number; // requests per second, 0 disables the limiter
+  rateBurst: number; // requests allowed at once before the rate applies
+}
+
+type RetryReason = 'rate_limit' | 'server_error' | 'network_error';
+
+// Reasons Google gives to 403 responses when a usage limit is exceeded
+const RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+
+// Transient server errors
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+
+// Connection errors raised before any response is received
+const RETRYABLE_NETWORK_ERRORS = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'ENETUNREACH'];
+
+// Server and network errors may happen after the request was applied, so only requests that
+// can be repeated safely are retried for them. Rate limited requests are never applied.
+const IDEMPOTENT_HTTP_METHODS = ['GET', 'HEAD', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Tells whether a failed request can be retried, and why
+ */
+const getRetryReason = (error: any): RetryReason | null => {
+  const status = error?.response?.status;
+  const reasons: { reason?: string }[] = error?.errors ?? error?.response?.data?.error?.errors ?? [];
+
+  if (status === 429 || (status === 403 && reasons.some(item => RATE_LIMIT_REASONS.includes(item.reason ?? '')))) {
+    return 'rate_limit';
+  }
+
+  const httpMethod = String(error?.config?.method ?? 'GET').toUpperCase();
+  if (!IDEMPOTENT_HTTP_METHODS.includes(httpMethod)) {
+    return null;
+  }
+  if (RETRYABLE_STATUSES.includes(status)) {
+    return 'server_error';
+  }
+  if (!error?.response && RETRYABLE_NETWORK_ERRORS.includes(error?.code)) {
+    return 'network_error';
+  }
+  return null;
+};
+
+/**
+ * Reads the Retry-After header of a failed request, given in seconds or as an HTTP date
+ *
+ * @returns The delay requested by Google in milliseconds, or null when there is none
+ */
+const getRetryAfter = (error: any): number | null => {
+  const headers = error?.response?.headers;
+  const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+/**
+ * Runs the Google Calendar API requests of an account. Requests go through a token bucket, so bursts
+ * of tool calls stay within Google's per-user quota, and are retried with exponential backoff and
+ * jitter when Google limits their rate or fails temporarily.
+ */
+export class GoogleRequestExecutor {
+  private config: GoogleRequestConfig;
+  private limiter: TokenBucket | null;
+  private logger: ILogger;
+
+  constructor(config: GoogleRequestConfig, logger: ILogger) {
+    this.config = config;
+    this.limiter = config.rateLimit > 0 ? new TokenBucket(config.rateLimit, config.rateBurst) : null;
+    this.logger = logger;
+  }
+
+  /**
+   * Runs a request, waiting for the rate limiter before each attempt
+   *
+   * @param apiMethod - Name of the API method (e.g. events.list), used in logs and metrics
+   * @param request - Function that makes one attempt of the request
+   */
+  public async execute<T>(apiMethod: string, request: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      if (this.limiter) {
+        const wait = await this.limiter.acquire();
+        if (wait > 0) {
+          this.logger.debug(`[GCAL] Request ${apiMethod} held by the rate limiter | Wait: ${wait}ms`);
+        }
+      }
+
+      try {
+        return await request();
+      } catch (error: any) {
+        const reason = getRetryReason(error);
+        if (!reason || attempt > this.config.maxRetries) {
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(error, attempt);
+        if (delay === null) {
+          this.logger.warn(`[GCAL] Not retrying ${apiMethod}: Retry-After exceeds ${this.config.retryMaxDelay}ms`);
+          throw error;
+        }
+
+        googleApiRetriesTotal.inc({ method: apiMethod, reason });
+        this.logger.warn(`[GCAL] Retrying ${apiMethod} in ${delay}ms | Attempt: ${attempt}/${this.config.maxRetries} | Reason: ${reason} | Status: ${error?.response?.status ?? error?.code}`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Delay before a retry: the Retry-After requested by Google, otherwise an exponential backoff
+   * with jitter, so clients throttled together do not retry together
+   *
+   * @returns The delay in milliseconds, or null when Google asks to wait longer than allowed
+   */
+  private getRetryDelay(error: unknown, attempt: number): number | null {
+    const retryAfter = getRetryAfter(error);
+    if (retryAfter !== null) {
+      return retryAfter <= this.config.retryMaxDelay ? retryAfter : null;
+    }
+
+    const backoff = Math.min(this.config.retryBaseDelay * 2 ** (attempt - 1), this.config.retryMaxDelay);
+    return Math.round(backoff / 2 + Math.random() * backoff / 2);
+  }
+}
@@ -0,0 +1,19 @@
+import { jest } from '@jest/globals';
+import { ILogger } from '../utils/logger.js';
+
+/**
+ * Creates a logger that records calls instead of writing them, for tests
+ */
+export const createTestLogger = (): ILogger => ({
+  error: jest.fn(),
+  warn: jest.fn(),
+  info: jest.fn(),
+  http: jest.fn(),
+  verbose: jest.fn(),
+  debug: jest.fn(),
+  silly: jest.fn(),
+  profile: jest.fn(),
+  startTimer: jest.fn(),
+  isLevelEnabled: jest.fn(() => false),
+  close: jest.fn(async () => {})
+}) as unknown as ILogger;
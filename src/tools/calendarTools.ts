@@ -1,68 +1,219 @@
+import { AccountManager } from '../services/accountManager.js';
 import { GoogleCalendarService } from '../services/googleCalendar.js';
 import {
+  AccountSchema,
   ListCalendarsSchema,
   GetCalendarSchema,
+  CreateCalendarSchema,
+  UpdateCalendarSchema,
+  DeleteCalendarSchema,
+  SubscribeCalendarSchema,
+  UnsubscribeCalendarSchema,
+  UpdateCalendarListEntrySchema,
+  ListAclRulesSchema,
+  CreateAclRuleSchema,
+  UpdateAclRuleSchema,
+  DeleteAclRuleSchema,
   ListEventsSchema,
   GetEventSchema,
   CreateEventSchema,
   UpdateEventSchema,
   DeleteEventSchema,
+  QuickAddEventSchema,
+  MoveEventSchema,
+  ListEventInstancesSchema,
   ListColorsSchema,
+  GetFreeBusySchema,
+  FindAvailableSlotsSchema,
+  AccountParams,
   ListCalendarsParams,
   GetCalendarParams,
+  CreateCalendarParams,
+  UpdateCalendarParams,
+  DeleteCalendarParams,
+  SubscribeCalendarParams,
+  UnsubscribeCalendarParams,
+  UpdateCalendarListEntryParams,
+  ListAclRulesParams,
+  CreateAclRuleParams,
+  UpdateAclRuleParams,
+  DeleteAclRuleParams,
   ListEventsParams,
   GetEventParams,
   CreateEventParams,
   UpdateEventParams,
   DeleteEventParams,
-  ListColorsParams
+  QuickAddEventParams,
+  MoveEventParams,
+  ListEventInstancesParams,
+  ListColorsParams,
+  GetFreeBusyParams,
+  FindAvailableSlotsParams
 } from '../types/index.js';
+import { calendar_v3 } from 'googleapis';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { toolCallsTotal, toolCallDuration } from '../utils/metrics.js';
+import { runWithContext } from '../utils/requestContext.js';
 import { ILogger } from '../utils/logger.js';
 
+// Highlights the conference join URL of an event, when it has one
+const conferenceContent = (event: calendar_v3.Schema$Event) => {
+  const joinUrl = event.hangoutLink
+    || event.conferenceData?.entryPoints?.find(entryPoint => entryPoint.entryPointType === 'video')?.uri;
+
+  if (joinUrl) {
+    return [{ type: 'text' as const, text: `Conference join URL: ${joinUrl}` }];
+  }
+
+  if (event.conferenceData?.createRequest?.status?.statusCode === 'pending') {
+    return [{ type: 'text' as const, text: 'Conference is still being created, get the event again for the join URL' }];
+  }
+
+  return [];
+};
+
+/**
+ * Wraps a tool handler so its calls are counted and timed by tool name and outcome, and logged
+ * with the tool name. Tools report failures as results with isError, so those count as errors too.
+ */
+const withMetrics = <Args extends unknown[]>(name: string, handler: (...args: Args) => Promise<CallToolResult>) =>
+  async (...args: Args): Promise<CallToolResult> => {
+    const endTimer = toolCallDuration.startTimer({ tool: name });
+    let outcome = 'error';
+
+    try {
+      const result = await runWithContext({ tool: name }, () => handler(...args));
+      outcome = result.isError ? 'error' : 'success';
+      return result;
+    } finally {
+      endTimer({ outcome });
+      toolCallsTotal.inc({ tool: name, outcome });
+    }
+  };
+
+export interface CalendarToolsOptions {
+  sessionAccountId?: string; // account of the session's user, the only one the tools may use
+  readOnly?: boolean;
+  admin?: boolean; // admin sessions may impersonate Workspace users
+}
+
 export function registerCalendarTools(
   server: McpServer,
-  calendarService: GoogleCalendarService,
-  logger: ILogger
+  accounts: AccountManager,
+  logger: ILogger,
+  options: CalendarToolsOptions = {}
 ): void {
+  const { sessionAccountId, readOnly, admin } = options;
+
+  // Read-only sessions can read calendars but not change them
+  const requireWrite = (): void => {
+    if (readOnly) {
+      throw new Error('This session is read-only: the write scope is required');
+    }
+  };
+
+  // Sessions tied to a user always run as that user and cannot reach other accounts
+  const resolveAccount = (accountId?: string, otherAccountIds: string[] = []): string | undefined => {
+    if (!sessionAccountId) {
+      return accountId;
+    }
+
+    if ((accountId && accountId !== sessionAccountId) || otherAccountIds.length) {
+      throw new Error('This session can only use the account of its own user');
+    }
+
+    return sessionAccountId;
+  };
+
+  // Gets the service of an account, or of a Workspace user impersonated through the service account
+  const getService = (accountId?: string, impersonate?: string, otherAccountIds: string[] = []): GoogleCalendarService => {
+    if (!impersonate) {
+      return accounts.get(resolveAccount(accountId, otherAccountIds));
+    }
+
+    if (sessionAccountId || !admin) {
+      throw new Error('Impersonation requires an admin session: the admin scope is required');
+    }
+    if (accountId || otherAccountIds.length) {
+      throw new Error('impersonate cannot be combined with accountId or accountIds');
+    }
+
+    return accounts.getImpersonated(impersonate);
+  };
+
+  // List linked accounts
+  server.tool(
+    'listAccounts',
+    'List the linked Google accounts that can be passed as accountId',
+    {},
+    withMetrics('listAccounts', async () => {
+      try {
+        const linkedAccounts = (await accounts.listAccounts())
+          .filter(account => !sessionAccountId || account.accountId === sessionAccountId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(linkedAccounts, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error('[TOOLS] Error listing accounts:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error listing accounts: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
   // List calendars
-  // server.tool(
-  //   'listCalendars',
-  //   'List all available calendars',
-  //   ListCalendarsSchema.shape,
-  //   async (params: ListCalendarsParams) => {
-  //     try {
-  //       const calendars = await calendarService.listCalendars();
-  //       return {
-  //         content: [
-  //           {
-  //             type: 'text',
-  //             text: JSON.stringify(calendars, null, 2)
-  //           }
-  //         ]
-  //       };
-  //     } catch (error) {
-  //       logger.error('[TOOLS] Error listing calendars:', error);
-  //       return {
-  //         content: [
-  //           {
-  //             type: 'text',
-  //             text: `Error listing calendars: ${error}`
-  //           }
-  //         ],
-  //         isError: true
-  //       };
-  //     }
-  //   }
-  // );
+  server.tool(
+    'listCalendars',
+    'List the calendars in the user calendar list, optionally filtered by access role',
+    { ...AccountSchema.shape, ...ListCalendarsSchema.shape },
+    withMetrics('listCalendars', async ({ accountId, impersonate, ...params }: AccountParams & ListCalendarsParams) => {
+      try {
+        const calendarService = getService(accountId, impersonate);
+        const calendars = await calendarService.listCalendars(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(calendars, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error('[TOOLS] Error listing calendars:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error listing calendars: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
 
   // Get specific calendar
   server.tool(
     'getCalendar',
     'Get details of a specific calendar',
-    GetCalendarSchema.shape,
-    async (params: GetCalendarParams) => {
+    { ...AccountSchema.shape, ...GetCalendarSchema.shape },
+    withMetrics('getCalendar', async ({ accountId, impersonate, ...params }: AccountParams & GetCalendarParams) => {
       try {
+        const calendarService = getService(accountId, impersonate);
         const calendar = await calendarService.getCalendar(params.calendarId);
         return {
           content: [
@@ -84,16 +235,346 @@ export function registerCalendarTools(
           isError: true
         };
       }
-    }
+    })
+  );
+
+  // Create secondary calendar
+  server.tool(
+    'createCalendar',
+    'Create a new secondary calendar owned by the user',
+    { ...AccountSchema.shape, ...CreateCalendarSchema.shape },
+    withMetrics('createCalendar', async ({ accountId, impersonate, ...params }: AccountParams & CreateCalendarParams) => {
+      try {
+        requireWrite();
+        const calendarService = getService(accountId, impersonate);
+        const calendar = await calendarService.createCalendar(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(calendar, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error(`[TOOLS] Error creating calendar:`, error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error creating calendar: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Update calendar
+  server.tool(
+    'updateCalendar',
+    'Update the title, description, location or time zone of a calendar',
+    { ...AccountSchema.shape, ...UpdateCalendarSchema.shape },
+    withMetrics('updateCalendar', async ({ accountId, impersonate, ...params }: AccountParams & UpdateCalendarParams) => {
+      try {
+        requireWrite();
+        const calendarService = getService(accountId, impersonate);
+        const calendar = await calendarService.updateCalendar(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(calendar, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error(`[TOOLS] Error updating calendar ${params.calendarId}:`, error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error updating calendar ${params.calendarId}: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Delete secondary calendar
+  server.tool(
+    'deleteCalendar',
+    'Delete a secondary calendar and all of its events',
+    { ...AccountSchema.shape, ...DeleteCalendarSchema.shape },
+    withMetrics('deleteCalendar', async ({ accountId, impersonate, ...params }: AccountParams & DeleteCalendarParams) => {
+      try {
+        requireWrite();
+        const calendarService = getService(accountId, impersonate);
+        await calendarService.deleteCalendar(params.calendarId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Calendar ${params.calendarId} successfully deleted`
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error(`[TOOLS] Error deleting calendar ${params.calendarId}:`, error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error deleting calendar ${params.calendarId}: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Subscribe to calendar
+  server.tool(
+    'subscribeCalendar',
+    'Add an existing calendar, such as one shared by another user, to the user calendar list',
+    { ...AccountSchema.shape, ...SubscribeCalendarSchema.shape },
+    withMetrics('subscribeCalendar', async ({ accountId, impersonate, ...params }: AccountParams & SubscribeCalendarParams) => {
+      try {
+        requireWrite();
+        const calendarService = getService(accountId, impersonate);
+        const entry = await calendarService.subscribeCalendar(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(entry, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error(`[TOOLS] Error subscribing to calendar ${params.calendarId}:`, error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error subscribing to calendar ${params.calendarId}: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Unsubscribe from calendar
+  server.tool(
+    'unsubscribeCalendar',
+    'Remove a calendar from the user calendar list without deleting it',
+    { ...AccountSchema.shape, ...UnsubscribeCalendarSchema.shape },
+    withMetrics('unsubscribeCalendar', async ({ accountId, impersonate, ...params }: AccountParams & UnsubscribeCalendarParams) => {
+      try {
+        requireWrite();
+        const calendarService = getService(accountId, impersonate);
+        await calendarService.unsubscribeCalendar(params.calendarId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Unsubscribed from calendar ${params.calendarId}`
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error(`[TOOLS] Error unsubscribing from calendar ${params.calendarId}:`, error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error unsubscribing from calendar ${params.calendarId}: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Update calendar display settings
+  server.tool(
+    'updateCalendarListEntry',
+    'Update how a calendar is shown to the user: name, color, visibility and default reminders',
+    { ...AccountSchema.shape, ...UpdateCalendarListEntrySchema.shape },
+    withMetrics('updateCalendarListEntry', async ({ accountId, impersonate, ...params }: AccountParams & UpdateCalendarListEntryParams) => {
+      try {
+        requireWrite();
+        const calendarService = getService(accountId, impersonate);
+        const entry = await calendarService.updateCalendarListEntry(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(entry, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error(`[TOOLS] Error updating calendar list entry ${params.calendarId}:`, error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error updating calendar list entry ${params.calendarId}: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // List calendar sharing rules
+  server.tool(
+    'listAclRules',
+    'List who a calendar is shared with and at which role',
+    { ...AccountSchema.shape, ...ListAclRulesSchema.shape },
+    withMetrics('listAclRules', async ({ accountId, impersonate, ...params }: AccountParams & ListAclRulesParams) => {
+      try {
+        const calendarService = getService(accountId, impersonate);
+        const acl = await calendarService.listAclRules(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(acl, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error(`[TOOLS] Error listing sharing rules of calendar ${params.calendarId}:`, error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error listing sharing rules of calendar ${params.calendarId}: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Share calendar
+  server.tool(
+    'createAclRule',
+    'Share a calendar with a user, group, domain or the public at a given role',
+    { ...AccountSchema.shape, ...CreateAclRuleSchema.shape },
+    withMetrics('createAclRule', async ({ accountId, impersonate, ...params }: AccountParams & CreateAclRuleParams) => {
+      try {
+        requireWrite();
+        const calendarService = getService(accountId, impersonate);
+        const rule = await calendarService.createAclRule(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(rule, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error(`[TOOLS] Error sharing calendar ${params.calendarId}:`, error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error sharing calendar ${params.calendarId}: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Update calendar sharing rule
+  server.tool(
+    'updateAclRule',
+    'Change the role granted by a calendar sharing rule',
+    { ...AccountSchema.shape, ...UpdateAclRuleSchema.shape },
+    withMetrics('updateAclRule', async ({ accountId, impersonate, ...params }: AccountParams & UpdateAclRuleParams) => {
+      try {
+        requireWrite();
+        const calendarService = getService(accountId, impersonate);
+        const rule = await calendarService.updateAclRule(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(rule, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error(`[TOOLS] Error updating sharing rule ${params.ruleId}:`, error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error updating sharing rule ${params.ruleId}: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Remove calendar sharing rule
+  server.tool(
+    'deleteAclRule',
+    'Remove a calendar sharing rule, revoking the access it granted',
+    { ...AccountSchema.shape, ...DeleteAclRuleSchema.shape },
+    withMetrics('deleteAclRule', async ({ accountId, impersonate, ...params }: AccountParams & DeleteAclRuleParams) => {
+      try {
+        requireWrite();
+        const calendarService = getService(accountId, impersonate);
+        await calendarService.deleteAclRule(params.calendarId, params.ruleId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Sharing rule ${params.ruleId} successfully removed from calendar ${params.calendarId}`
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error(`[TOOLS] Error removing sharing rule ${params.ruleId}:`, error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error removing sharing rule ${params.ruleId}: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
   );
 
   // List events
   server.tool(
     'listEvents',
     'List events of a calendar with filtering options',
-    ListEventsSchema.shape,
-    async (params: ListEventsParams) => {
+    { ...AccountSchema.shape, ...ListEventsSchema.shape },
+    withMetrics('listEvents', async ({ accountId, impersonate, ...params }: AccountParams & ListEventsParams) => {
       try {
+        const calendarService = getService(accountId, impersonate);
         const events = await calendarService.listEvents(params);
         return {
           content: [
@@ -115,16 +596,17 @@ export function registerCalendarTools(
           isError: true
         };
       }
-    }
+    })
   );
 
   // Get specific event
   server.tool(
     'getEvent',
     'Get detailed information about a specific event',
-    GetEventSchema.shape,
-    async (params: GetEventParams) => {
+    { ...AccountSchema.shape, ...GetEventSchema.shape },
+    withMetrics('getEvent', async ({ accountId, impersonate, ...params }: AccountParams & GetEventParams) => {
       try {
+        const calendarService = getService(accountId, impersonate);
         const event = await calendarService.getEvent(params.calendarId, params.eventId);
         return {
           content: [
@@ -146,22 +628,25 @@ export function registerCalendarTools(
           isError: true
         };
       }
-    }
+    })
   );
 
   // Create event
   server.tool(
     'createEvent',
     'Create a new calendar event',
-    CreateEventSchema.shape,
-    async (params: CreateEventParams) => {
+    { ...AccountSchema.shape, ...CreateEventSchema.shape },
+    withMetrics('createEvent', async ({ accountId, impersonate, ...params }: AccountParams & CreateEventParams) => {
       try {
+        requireWrite();
+        const calendarService = getService(accountId, impersonate);
         // Extract relevant event data from the parameter
         const { calendarId, ...eventData } = params;
 
         const createdEvent = await calendarService.createEvent(calendarId, eventData);
         return {
           content: [
+            ...conferenceContent(createdEvent),
             {
               type: 'text',
               text: JSON.stringify(createdEvent, null, 2)
@@ -180,21 +665,24 @@ export function registerCalendarTools(
           isError: true
         };
       }
-    }
+    })
   );
 
   // Update event
   server.tool(
     'updateEvent',
-    'Update an existing calendar event',
-    UpdateEventSchema.shape,
-    async (params: UpdateEventParams) => {
+    'Update an existing calendar event. Only the fields sent are changed',
+    { ...AccountSchema.shape, ...UpdateEventSchema.shape },
+    withMetrics('updateEvent', async ({ accountId, impersonate, ...params }: AccountParams & UpdateEventParams) => {
       try {
-        const { calendarId, eventId, ...eventData } = params;
+        requireWrite();
+        const calendarService = getService(accountId, impersonate);
+        const { calendarId, eventId, scope, sendUpdates, ...changes } = params;
 
-        const updatedEvent = await calendarService.updateEvent(calendarId, eventId, eventData);
+        const updatedEvent = await calendarService.updateEvent(calendarId, eventId, changes, scope, sendUpdates);
         return {
           content: [
+            ...conferenceContent(updatedEvent),
             {
               type: 'text',
               text: JSON.stringify(updatedEvent, null, 2)
@@ -213,19 +701,21 @@ export function registerCalendarTools(
           isError: true
         };
       }
-    }
+    })
   );
 
   // Delete event
   server.tool(
     'deleteEvent',
     'Delete a calendar event',
-    DeleteEventSchema.shape,
-    async (params: DeleteEventParams) => {
+    { ...AccountSchema.shape, ...DeleteEventSchema.shape },
+    withMetrics('deleteEvent', async ({ accountId, impersonate, ...params }: AccountParams & DeleteEventParams) => {
       try {
-        const { calendarId, eventId, sendUpdates } = params;
+        requireWrite();
+        const calendarService = getService(accountId, impersonate);
+        const { calendarId, eventId, sendUpdates, scope } = params;
 
-        await calendarService.deleteEvent(calendarId, eventId, sendUpdates);
+        await calendarService.deleteEvent(calendarId, eventId, sendUpdates, scope);
         return {
           content: [
             {
@@ -246,7 +736,175 @@ export function registerCalendarTools(
           isError: true
         };
       }
-    }
+    })
+  );
+
+  // Create event from natural language
+  server.tool(
+    'quickAddEvent',
+    'Create an event from a natural-language text, e.g. "Lunch with Ana tomorrow 1pm"',
+    { ...AccountSchema.shape, ...QuickAddEventSchema.shape },
+    withMetrics('quickAddEvent', async ({ accountId, impersonate, ...params }: AccountParams & QuickAddEventParams) => {
+      try {
+        requireWrite();
+        const calendarService = getService(accountId, impersonate);
+        const { calendarId, text, sendUpdates } = params;
+
+        const createdEvent = await calendarService.quickAddEvent(calendarId, text, sendUpdates);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(createdEvent, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error('[TOOLS] Error quick adding event:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error quick adding event: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Move event to another calendar
+  server.tool(
+    'moveEvent',
+    'Move an event to another calendar',
+    { ...AccountSchema.shape, ...MoveEventSchema.shape },
+    withMetrics('moveEvent', async ({ accountId, impersonate, ...params }: AccountParams & MoveEventParams) => {
+      try {
+        requireWrite();
+        const calendarService = getService(accountId, impersonate);
+        const { calendarId, eventId, destinationCalendarId, sendUpdates } = params;
+
+        const movedEvent = await calendarService.moveEvent(calendarId, eventId, destinationCalendarId, sendUpdates);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(movedEvent, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error(`[TOOLS] Error moving event ${params.eventId}:`, error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error moving event ${params.eventId}: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // List occurrences of a recurring event
+  server.tool(
+    'listEventInstances',
+    'List the occurrences of a recurring event',
+    { ...AccountSchema.shape, ...ListEventInstancesSchema.shape },
+    withMetrics('listEventInstances', async ({ accountId, impersonate, ...params }: AccountParams & ListEventInstancesParams) => {
+      try {
+        const calendarService = getService(accountId, impersonate);
+        const instances = await calendarService.listEventInstances(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(instances, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error(`[TOOLS] Error listing instances of event ${params.eventId}:`, error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error listing instances of event ${params.eventId}: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Query free/busy information
+  server.tool(
+    'getFreeBusy',
+    'Get busy periods for a set of calendars or attendee emails',
+    { ...AccountSchema.shape, ...GetFreeBusySchema.shape },
+    withMetrics('getFreeBusy', async ({ accountId, impersonate, ...params }: AccountParams & GetFreeBusyParams) => {
+      try {
+        const freeBusy = impersonate
+          ? await getService(accountId, impersonate, params.accountIds).getFreeBusy(params)
+          : await accounts.getFreeBusy(resolveAccount(accountId, params.accountIds), params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(freeBusy, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error('[TOOLS] Error querying free/busy:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error querying free/busy: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
+  );
+
+  // Find available slots across calendars
+  server.tool(
+    'findAvailableSlots',
+    'Find ranked open time slots shared by several calendars or attendees within working hours',
+    { ...AccountSchema.shape, ...FindAvailableSlotsSchema.shape },
+    withMetrics('findAvailableSlots', async ({ accountId, impersonate, ...params }: AccountParams & FindAvailableSlotsParams) => {
+      try {
+        const result = impersonate
+          ? await getService(accountId, impersonate, params.accountIds).findAvailableSlots(params)
+          : await accounts.findAvailableSlots(resolveAccount(accountId, params.accountIds), params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error('[TOOLS] Error finding available slots:', error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error finding available slots: ${error}`
+            }
+          ],
+          isError: true
+        };
+      }
+    })
   );
 
   // List available colors
@@ -2,12 +2,98 @@ import { z } from 'zod';
 
 // Validation schemas for Google Calendar tools
 
-export const ListCalendarsSchema = z.object({});
+// Linked Google account used by a tool, accepted by every tool
+export const AccountSchema = z.object({
+  accountId: z.string().optional().describe('ID of the linked Google account (default account when omitted)'),
+  impersonate: z.string().email().optional()
+    .describe('Workspace user to act as through the service account (service account mode, admin sessions only)')
+});
+
+export const ListCalendarsSchema = z.object({
+  minAccessRole: z.enum(['freeBusyReader', 'reader', 'writer', 'owner']).optional()
+    .describe('Only return calendars where the user has at least this access role'),
+  showHidden: z.boolean().optional().describe('Include calendars hidden from the list'),
+  showDeleted: z.boolean().optional().describe('Include calendars removed from the list')
+});
 
 export const GetCalendarSchema = z.object({
   calendarId: z.string().describe('Calendar ID to get details')
 });
 
+export const CreateCalendarSchema = z.object({
+  summary: z.string().describe('Calendar title'),
+  description: z.string().optional().describe('Calendar description'),
+  location: z.string().optional().describe('Geographic location of the calendar'),
+  timeZone: z.string().optional().describe('Calendar time zone (IANA name)')
+});
+
+export const UpdateCalendarSchema = z.object({
+  calendarId: z.string().describe('Calendar ID to be updated'),
+  summary: z.string().optional().describe('Calendar title'),
+  description: z.string().optional().describe('Calendar description'),
+  location: z.string().optional().describe('Geographic location of the calendar'),
+  timeZone: z.string().optional().describe('Calendar time zone (IANA name)')
+});
+
+export const DeleteCalendarSchema = z.object({
+  calendarId: z.string().describe('ID of the secondary calendar to be deleted')
+});
+
+export const SubscribeCalendarSchema = z.object({
+  calendarId: z.string().describe('Calendar ID to add to the user calendar list'),
+  summaryOverride: z.string().optional().describe('Name shown for the calendar'),
+  colorId: z.string().optional().describe('Calendar color ID'),
+  hidden: z.boolean().optional().describe('Hide the calendar from the list'),
+  selected: z.boolean().optional().describe('Show the calendar events in the user interface')
+});
+
+export const UnsubscribeCalendarSchema = z.object({
+  calendarId: z.string().describe('Calendar ID to remove from the user calendar list')
+});
+
+export const UpdateCalendarListEntrySchema = z.object({
+  calendarId: z.string().describe('Calendar ID in the user calendar list'),
+  summaryOverride: z.string().optional().describe('Name shown for the calendar'),
+  colorId: z.string().optional().describe('Calendar color ID'),
+  backgroundColor: z.string().optional().describe('Background color in hex format (#RRGGBB), overrides colorId'),
+  foregroundColor: z.string().optional().describe('Foreground color in hex format (#RRGGBB), overrides colorId'),
+  hidden: z.boolean().optional().describe('Hide the calendar from the list'),
+  selected: z.boolean().optional().describe('Show the calendar events in the user interface'),
+  defaultReminders: z.array(z.object({
+    method: z.enum(['email', 'popup']).describe('Reminder method'),
+    minutes: z.number().min(0).describe('Minutes before the event')
+  })).optional().describe('Default reminders for events of this calendar')
+});
+
+const AclRoleSchema = z.enum(['none', 'freeBusyReader', 'reader', 'writer', 'owner'])
+  .describe('Access role: none, freeBusyReader (only free/busy), reader, writer (edit events) or owner (also manage sharing)');
+
+export const ListAclRulesSchema = z.object({
+  calendarId: z.string().describe('Calendar ID'),
+  showDeleted: z.boolean().optional().describe('Include deleted rules, returned with role "none"')
+});
+
+export const CreateAclRuleSchema = z.object({
+  calendarId: z.string().describe('Calendar ID to be shared'),
+  role: AclRoleSchema,
+  scopeType: z.enum(['default', 'user', 'group', 'domain'])
+    .describe('Who receives access: default (public), user, group or domain'),
+  scopeValue: z.string().optional().describe('Email of the user or group, or the domain name. Omitted for the default scope'),
+  sendNotifications: z.boolean().optional().describe('Notify the grantee by email (default true)')
+});
+
+export const UpdateAclRuleSchema = z.object({
+  calendarId: z.string().describe('Calendar ID'),
+  ruleId: z.string().describe('ACL rule ID, e.g. "user:ana@example.com"'),
+  role: AclRoleSchema,
+  sendNotifications: z.boolean().optional().describe('Notify the grantee by email (default true)')
+});
+
+export const DeleteAclRuleSchema = z.object({
+  calendarId: z.string().describe('Calendar ID'),
+  ruleId: z.string().describe('ACL rule ID, e.g. "user:ana@example.com"')
+});
+
 export const ListEventsSchema = z.object({
   calendarId: z.string().describe('Calendar ID to list events'),
   timeMin: z.string().optional().describe('Minimum time (ISO format)'),
@@ -23,6 +109,15 @@ export const GetEventSchema = z.object({
   eventId: z.string().describe('Event ID to get details')
 });
 
+export const ConferenceDataSchema = z.object({
+  createRequest: z.object({
+    requestId: z.string().optional().describe('Unique ID of the request (generated if omitted)'),
+    conferenceSolutionKey: z.object({
+      type: z.enum(['hangoutsMeet', 'addOn']).describe('Conference solution type')
+    }).optional().describe('Conference solution (default Google Meet)')
+  }).describe('Request to create a new conference, e.g. {} for a Google Meet link')
+}).describe('Conference (video call) to attach to the event');
+
 export const CreateEventSchema = z.object({
   calendarId: z.string().describe('Calendar ID to create the event'),
   summary: z.string().describe('Event title'),
@@ -38,7 +133,10 @@ export const CreateEventSchema = z.object({
     date: z.string().optional().describe('End date for all-day events (YYYY-MM-DD)'),
     timeZone: z.string().optional().describe('Time zone')
   }),
+  recurrence: z.array(z.string()).optional()
+    .describe('Recurrence lines in RFC 5545 format (RRULE, EXDATE, RDATE), e.g. ["RRULE:FREQ=WEEKLY;BYDAY=MO"]. Recurring events need start.timeZone and end.timeZone'),
   colorId: z.string().optional().describe('Event color ID'),
+  conferenceData: ConferenceDataSchema.optional(),
   attendees: z.array(z.object({
     email: z.string().email().describe('Participant email'),
     displayName: z.string().optional().describe('Display name'),
@@ -53,9 +151,13 @@ export const CreateEventSchema = z.object({
   }).optional().describe('Reminder settings')
 });
 
+export const RecurrenceScopeSchema = z.enum(['thisEvent', 'thisAndFollowing', 'allEvents'])
+  .describe('For recurring events: apply to this occurrence only, this and following occurrences, or the whole series (default thisEvent)');
+
 export const UpdateEventSchema = z.object({
   calendarId: z.string().describe('Calendar ID'),
-  eventId: z.string().describe('Event ID to be updated'),
+  eventId: z.string().describe('Event ID to be updated (use an instance ID to target an occurrence)'),
+  scope: RecurrenceScopeSchema.optional(),
   summary: z.string().optional().describe('Event title'),
   location: z.string().optional().describe('Event location'),
   description: z.string().optional().describe('Event description'),
@@ -69,36 +171,124 @@ export const UpdateEventSchema = z.object({
     date: z.string().optional().describe('End date for all-day events (YYYY-MM-DD)'),
     timeZone: z.string().optional().describe('Time zone')
   }).optional(),
+  recurrence: z.array(z.string()).optional()
+    .describe('Recurrence lines in RFC 5545 format (RRULE, EXDATE, RDATE), e.g. ["RRULE:FREQ=WEEKLY;BYDAY=MO"]. Recurring events need start.timeZone and end.timeZone'),
   colorId: z.string().optional().describe('Event color ID'),
+  conferenceData: ConferenceDataSchema.optional(),
   attendees: z.array(z.object({
     email: z.string().email().describe('Participant email'),
     displayName: z.string().optional().describe('Display name'),
     optional: z.boolean().optional().describe('Optional attendance')
-  })).optional().describe('List of participants'),
+  })).optional().describe('Full list of participants, replacing the current one'),
+  addAttendees: z.array(z.object({
+    email: z.string().email().describe('Participant email'),
+    displayName: z.string().optional().describe('Display name'),
+    optional: z.boolean().optional().describe('Optional attendance')
+  })).optional().describe('Participants to add, keeping the current ones'),
+  removeAttendees: z.array(z.string().email()).optional()
+    .describe('Emails of participants to remove, keeping the other ones'),
   reminders: z.object({
     useDefault: z.boolean().optional().describe('Use default reminders'),
     overrides: z.array(z.object({
       method: z.enum(['email', 'popup']).describe('Reminder method'),
       minutes: z.number().min(0).describe('Minutes before the event')
     })).optional().describe('Overrides for specific reminders')
-  }).optional().describe('Reminder settings')
+  }).optional().describe('Reminder settings'),
+  clearFields: z.array(z.enum(['location', 'description', 'colorId', 'attendees', 'reminders', 'recurrence', 'conferenceData'])).optional()
+    .describe('Fields to clear. Omitted fields are left unchanged'),
+  sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional()
+    .describe('Which update notification to send')
 });
 
 export const DeleteEventSchema = z.object({
   calendarId: z.string().describe('Calendar ID'),
-  eventId: z.string().describe('Event ID to be deleted'),
+  eventId: z.string().describe('Event ID to be deleted (use an instance ID to target an occurrence)'),
+  scope: RecurrenceScopeSchema.optional(),
   sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional()
     .describe('Which cancellation notification to send')
 });
 
+export const QuickAddEventSchema = z.object({
+  calendarId: z.string().describe('Calendar ID to create the event'),
+  text: z.string().describe('Natural-language description of the event, e.g. "Lunch with Ana tomorrow 1pm"'),
+  sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional()
+    .describe('Which invitation notification to send')
+});
+
+export const MoveEventSchema = z.object({
+  calendarId: z.string().describe('Calendar ID where the event currently is'),
+  eventId: z.string().describe('Event ID to be moved'),
+  destinationCalendarId: z.string().describe('Calendar ID to move the event to'),
+  sendUpdates: z.enum(['all', 'externalOnly', 'none']).optional()
+    .describe('Which update notification to send')
+});
+
+export const ListEventInstancesSchema = z.object({
+  calendarId: z.string().describe('Calendar ID'),
+  eventId: z.string().describe('ID of the recurring event'),
+  timeMin: z.string().optional().describe('Minimum time (ISO format)'),
+  timeMax: z.string().optional().describe('Maximum time (ISO format)'),
+  maxResults: z.number().min(1).max(2500).optional().describe('Maximum number of results'),
+  showDeleted: z.boolean().optional().describe('Include cancelled occurrences')
+});
+
 export const ListColorsSchema = z.object({});
 
+export const GetFreeBusySchema = z.object({
+  timeMin: z.string().describe('Start of the interval (ISO format)'),
+  timeMax: z.string().describe('End of the interval (ISO format)'),
+  items: z.array(z.string()).min(1).describe('Calendar IDs or attendee emails to query'),
+  timeZone: z.string().optional().describe('Time zone used in the response'),
+  accountIds: z.array(z.string()).optional()
+    .describe('Other linked accounts whose primary calendars are also queried, returned as "account:<id>"')
+});
+
+export const FindAvailableSlotsSchema = z.object({
+  calendarIds: z.array(z.string()).min(1)
+    .describe('Calendar IDs or attendee emails that must all be free'),
+  accountIds: z.array(z.string()).optional()
+    .describe('Other linked accounts whose primary calendars must also be free'),
+  durationMinutes: z.number().min(5).max(1440).describe('Duration of the desired slot in minutes'),
+  timeMin: z.string().describe('Start of the search range (ISO format)'),
+  timeMax: z.string().describe('End of the search range (ISO format)'),
+  timeZone: z.string().optional().describe('Time zone for working hours (IANA name, default UTC)'),
+  workingHoursStart: z.string().regex(/^\d{2}:\d{2}$/).optional()
+    .describe('Start of working hours (HH:MM, default 09:00)'),
+  workingHoursEnd: z.string().regex(/^\d{2}:\d{2}$/).optional()
+    .describe('End of working hours (HH:MM, default 18:00)'),
+  workingDays: z.array(z.number().min(0).max(6)).optional()
+    .describe('Working days of the week (0 = Sunday, default Monday to Friday)'),
+  slotIncrementMinutes: z.number().min(5).max(240).optional()
+    .describe('Granularity of candidate start times in minutes (default 30)'),
+  bufferMinutes: z.number().min(0).max(240).optional()
+    .describe('Free time required before and after busy periods (default 0)'),
+  maxResults: z.number().min(1).max(100).optional().describe('Maximum number of slots returned (default 10)')
+});
+
 // Types inferred from schemas
+export type AccountParams = z.infer<typeof AccountSchema>;
 export type ListCalendarsParams = z.infer<typeof ListCalendarsSchema>;
 export type GetCalendarParams = z.infer<typeof GetCalendarSchema>;
+export type CreateCalendarParams = z.infer<typeof CreateCalendarSchema>;
+export type UpdateCalendarParams = z.infer<typeof UpdateCalendarSchema>;
+export type DeleteCalendarParams = z.infer<typeof DeleteCalendarSchema>;
+export type SubscribeCalendarParams = z.infer<typeof SubscribeCalendarSchema>;
+export type UnsubscribeCalendarParams = z.infer<typeof UnsubscribeCalendarSchema>;
+export type UpdateCalendarListEntryParams = z.infer<typeof UpdateCalendarListEntrySchema>;
+export type ListAclRulesParams = z.infer<typeof ListAclRulesSchema>;
+export type CreateAclRuleParams = z.infer<typeof CreateAclRuleSchema>;
+export type UpdateAclRuleParams = z.infer<typeof UpdateAclRuleSchema>;
+export type DeleteAclRuleParams = z.infer<typeof DeleteAclRuleSchema>;
 export type ListEventsParams = z.infer<typeof ListEventsSchema>;
 export type GetEventParams = z.infer<typeof GetEventSchema>;
 export type CreateEventParams = z.infer<typeof CreateEventSchema>;
 export type UpdateEventParams = z.infer<typeof UpdateEventSchema>;
 export type DeleteEventParams = z.infer<typeof DeleteEventSchema>;
+export type QuickAddEventParams = z.infer<typeof QuickAddEventSchema>;
+export type MoveEventParams = z.infer<typeof MoveEventSchema>;
+export type ListEventInstancesParams = z.infer<typeof ListEventInstancesSchema>;
+export type RecurrenceScope = z.infer<typeof RecurrenceScopeSchema>;
+export type EventChanges = Omit<UpdateEventParams, 'calendarId' | 'eventId' | 'scope' | 'sendUpdates'>;
 export type ListColorsParams = z.infer<typeof ListColorsSchema>;
+export type GetFreeBusyParams = z.infer<typeof GetFreeBusySchema>;
+export type FindAvailableSlotsParams = z.infer<typeof FindAvailableSlotsSchema>;
@@ -0,0 +1,207 @@
+// Helpers to compute open time slots from Google Calendar free/busy data
+
+export interface TimeInterval {
+  start: number; // epoch milliseconds
+  end: number;   // epoch milliseconds
+}
+
+export interface SlotSearchOptions {
+  timeMin: number;
+  timeMax: number;
+  durationMinutes: number;
+  timeZone: string;
+  workingHoursStart: string; // HH:MM
+  workingHoursEnd: string;   // HH:MM
+  workingDays: number[];     // 0 = Sunday
+  slotIncrementMinutes: number;
+  bufferMinutes: number;
+  maxResults: number;
+}
+
+export interface AvailableSlot {
+  start: string;
+  end: string;
+  score: number;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Returns the offset (in ms) between the given time zone and UTC at a specific instant
+const getTimeZoneOffset = (timeZone: string, instant: number): number => {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+
+  const parts = formatter.formatToParts(new Date(instant)).reduce((acc, part) => {
+    if (part.type !== 'literal') {
+      acc[part.type] = parseInt(part.value, 10);
+    }
+    return acc;
+  }, {} as Record<string, number>);
+
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+// Converts a wall-clock time in a time zone to epoch milliseconds
+const zonedTimeToEpoch = (year: number, month: number, day: number, minutes: number, timeZone: string): number => {
+  const guess = Date.UTC(year, month, day) + minutes * MINUTE;
+  const firstPass = guess - getTimeZoneOffset(timeZone, guess);
+  // A second pass corrects the result around daylight saving transitions
+  return guess - getTimeZoneOffset(timeZone, firstPass);
+};
+
+// Converts an HH:MM string into minutes since midnight
+const parseClockTime = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(v => parseInt(v, 10));
+  return hours * 60 + minutes;
+};
+
+/**
+ * Gets the interval covering whole days in the given time zone, starting on the day of the instant
+ */
+export const getDayRange = (timeZone: string, instant: number = Date.now(), days = 1): TimeInterval => {
+  const local = new Date(instant + getTimeZoneOffset(timeZone, instant));
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth();
+  const date = local.getUTCDate();
+
+  return {
+    start: zonedTimeToEpoch(year, month, date, 0, timeZone),
+    end: zonedTimeToEpoch(year, month, date + days, 0, timeZone)
+  };
+};
+
+/**
+ * Merges overlapping or adjacent busy intervals, expanding each by the buffer
+ */
+export const mergeBusyIntervals = (intervals: TimeInterval[], bufferMinutes = 0): TimeInterval[] => {
+  const buffer = bufferMinutes * MINUTE;
+  const sorted = intervals
+    .map(i => ({ start: i.start - buffer, end: i.end + buffer }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Builds the working-hours windows between timeMin and timeMax in the given time zone
+ */
+export const buildWorkingWindows = (options: SlotSearchOptions): TimeInterval[] => {
+  const startMinutes = parseClockTime(options.workingHoursStart);
+  const endMinutes = parseClockTime(options.workingHoursEnd);
+  const windows: TimeInterval[] = [];
+
+  if (endMinutes <= startMinutes) {
+    return windows;
+  }
+
+  // Walks calendar days as seen in the target time zone
+  const firstLocal = new Date(options.timeMin + getTimeZoneOffset(options.timeZone, options.timeMin));
+  let cursor = Date.UTC(firstLocal.getUTCFullYear(), firstLocal.getUTCMonth(), firstLocal.getUTCDate());
+
+  while (true) {
+    const day = new Date(cursor);
+    const year = day.getUTCFullYear();
+    const month = day.getUTCMonth();
+    const date = day.getUTCDate();
+    const windowStart = zonedTimeToEpoch(year, month, date, startMinutes, options.timeZone);
+
+    if (windowStart >= options.timeMax) {
+      break;
+    }
+
+    if (options.workingDays.includes(day.getUTCDay())) {
+      const windowEnd = zonedTimeToEpoch(year, month, date, endMinutes, options.timeZone);
+      const start = Math.max(windowStart, options.timeMin);
+      const end = Math.min(windowEnd, options.timeMax);
+      if (end > start) {
+        windows.push({ start, end });
+      }
+    }
+
+    cursor += DAY;
+  }
+
+  return windows;
+};
+
+/**
+ * Finds open slots of the requested duration that avoid every busy interval.
+ *
+ * Slots are ranked so that the ones which do not fragment free time (starting right
+ * after a busy period or at the start of the day, or ending right before one) come first,
+ * followed by the earliest options.
+ */
+export const findAvailableSlots = (busy: TimeInterval[], options: SlotSearchOptions): AvailableSlot[] => {
+  const duration = options.durationMinutes * MINUTE;
+  const increment = options.slotIncrementMinutes * MINUTE;
+  const mergedBusy = mergeBusyIntervals(busy, options.bufferMinutes);
+  const candidates: Array<TimeInterval & { score: number }> = [];
+
+  for (const window of buildWorkingWindows(options)) {
+    // Subtract busy intervals from the window to get free gaps
+    const gaps: TimeInterval[] = [];
+    let gapStart = window.start;
+    for (const interval of mergedBusy) {
+      if (interval.end <= gapStart || interval.start >= window.end) {
+        continue;
+      }
+      if (interval.start > gapStart) {
+        gaps.push({ start: gapStart, end: interval.start });
+      }
+      gapStart = Math.max(gapStart, interval.end);
+    }
+    if (gapStart < window.end) {
+      gaps.push({ start: gapStart, end: window.end });
+    }
+
+    for (const gap of gaps) {
+      // Aligns candidate starts to the increment grid
+      let start = Math.ceil(gap.start / increment) * increment;
+      if (gap.start % increment !== 0 && gap.start !== window.start) {
+        // Also offer a slot that starts exactly when the previous commitment ends
+        start = gap.start;
+      }
+
+      while (start + duration <= gap.end) {
+        const end = start + duration;
+        let score = 0;
+        if (start === gap.start) score += 2;
+        if (end === gap.end) score += 1;
+        candidates.push({ start, end, score });
+
+        start = start === gap.start && start % increment !== 0
+          ? Math.ceil(start / increment) * increment
+          : start + increment;
+      }
+    }
+  }
+
+  return candidates
+    .sort((a, b) => (b.score - a.score) || (a.start - b.start))
+    .slice(0, options.maxResults)
+    .map(slot => ({
+      start: new Date(slot.start).toISOString(),
+      end: new Date(slot.end).toISOString(),
+      score: slot.score
+    }));
+};
@@ -0,0 +1,29 @@
+// Helpers to store sensitive files safely
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+// Writes a file through a temporary file renamed over it, so a crash never leaves it half written.
+// The file and its directory are only accessible by the owner.
+export const writeFileAtomic = async (filePath: string, data: string, mode = 0o600): Promise<void> => {
+  const dir = path.dirname(filePath);
+  await fs.promises.mkdir(dir, { recursive: true, mode: 0o700 });
+
+  const tempPath = path.join(dir, `.${path.basename(filePath)}.${crypto.randomBytes(6).toString('hex')}.tmp`);
+
+  try {
+    const handle = await fs.promises.open(tempPath, 'w', mode);
+    try {
+      await handle.writeFile(data, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+};
@@ -1,8 +1,10 @@
 import winston from 'winston';
 import { LEVEL, MESSAGE, SPLAT } from 'triple-beam';
 import { Config } from '../config/config.js';
+import { getRequestContext } from './requestContext.js';
+import { Redactor, parseRedactionPolicy } from './redaction.js';
 const { format, transports, createLogger } = winston;
-const { combine, timestamp, printf, colorize, errors, splat } = format;
+const { combine, timestamp, printf, colorize, errors, splat, json } = format;
 
 // Default npm log levels (RFC5424)
 const levels = {
@@ -84,14 +86,35 @@ export function createLoggerWithConfig(config: Config) {
     return configLevels.includes(level);
   };
 
+  // Removes secrets and personal data from messages, stack traces and metadata
+  const redactor = new Redactor(parseRedactionPolicy(config.LOG_REDACT || 'all'));
+  const redact = format(info => {
+    if (!redactor.isEnabled()) {
+      return info;
+    }
+
+    for (const key of Object.keys(info)) {
+      if (key !== 'level' && key !== 'timestamp') {
+        info[key] = key === 'message' || key === 'stack'
+          ? redactor.redactText(String(info[key]))
+          : redactor.redactValue(info[key], key);
+      }
+    }
+    return info;
+  });
+
   // Custom format for logs
   const customFormat = printf(info => {
-    // Extracts basic information
-    const { level, message, timestamp, stack, ...rest } = info;
+    // Extracts basic information, the request context is only shown as the correlation ID
+    const { level, message, timestamp, stack, correlationId, sessionId, tool, ...rest } = info;
 
     // Builds the base message
     let output = `${timestamp} ${level}: ${message}`;
 
+    if (correlationId) {
+      output += ` | CorrelationID: ${correlationId}`;
+    }
+
     // Adds the stack trace if it exists
     if (stack) {
       output += `\n${stack}`;
@@ -114,19 +137,33 @@ export function createLoggerWithConfig(config: Config) {
     return output;
   });
 
-  // Creates the logger
-  const logger = createLogger({
-    level: getBaseLevel(config.LOG_LEVEL || ''), // Determines the base level
-    levels,
-    format: combine(
+  // JSON lines for log aggregators, colorized text otherwise
+  const outputFormat = config.LOG_FORMAT === 'json'
+    ? combine(
+      errors({ stack: true }), // Captures stack traces
+      timestamp(),
+      splat(), // Enables string interpolation with %s, %d, etc.
+      redact(),
+      json()
+    )
+    : combine(
       errors({ stack: true }), // Captures stack traces
       timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
       splat(), // Enables string interpolation with %s, %d, etc.
+      redact(),
       colorize({ all: true }),
       customFormat
-    ),
+    );
+
+  // Creates the logger
+  const logger = createLogger({
+    level: getBaseLevel(config.LOG_LEVEL || ''), // Determines the base level
+    levels,
+    format: outputFormat,
     transports: [
       new transports.Console({
+        // In stdio mode stdout carries the MCP messages, so every level goes to stderr
+        stderrLevels: config.TRANSPORT === 'stdio' ? Object.keys(levels) : undefined,
         handleExceptions: true,
         handleRejections: true
       })
@@ -134,6 +171,12 @@ export function createLoggerWithConfig(config: Config) {
     exitOnError: false // Does not terminate the process in case of error
   });
 
+  // Adds the context of the current request (correlation ID, session, tool) to the entries
+  const contextLogger = (): winston.Logger => {
+    const context = getRequestContext();
+    return context ? logger.child({ ...context }) : logger;
+  };
+
   // Helper function to format non-string objects into strings
   const formatIfNeeded = (message: any): string => {
     if (message === null || message === undefined) {
@@ -174,6 +217,7 @@ export function createLoggerWithConfig(config: Config) {
     profile(id: string, meta?: Record<string, any>): void;
     startTimer(): winston.Profiler;
     isLevelEnabled(level: string): boolean;
+    close(): Promise<void>;
   }
 
   // Logger wrapper with argument handling
@@ -181,57 +225,57 @@ export function createLoggerWithConfig(config: Config) {
     error: (message: any, ...meta: any[]): void => {
       if (!isLevelEnabled('error')) return;
       if (typeof message === 'string') {
-        logger.error(message, ...meta);
+        contextLogger().error(message, ...meta);
       } else {
-        logger.error(formatIfNeeded(message));
+        contextLogger().error(formatIfNeeded(message));
       }
     },
     warn: (message: any, ...meta: any[]): void => {
       if (!isLevelEnabled('warn')) return;
       if (typeof message === 'string') {
-        logger.warn(message, ...meta);
+        contextLogger().warn(message, ...meta);
       } else {
-        logger.warn(formatIfNeeded(message));
+        contextLogger().warn(formatIfNeeded(message));
       }
     },
     info: (message: any, ...meta: any[]): void => {
       if (!isLevelEnabled('info')) return;
       if (typeof message === 'string') {
-        logger.info(message, ...meta);
+        contextLogger().info(message, ...meta);
       } else {
-        logger.info(formatIfNeeded(message));
+        contextLogger().info(formatIfNeeded(message));
       }
     },
     http: (message: any, ...meta: any[]): void => {
       if (!isLevelEnabled('http')) return;
       if (typeof message === 'string') {
-        logger.http(message, ...meta);
+        contextLogger().http(message, ...meta);
       } else {
-        logger.http(formatIfNeeded(message));
+        contextLogger().http(formatIfNeeded(message));
       }
     },
     verbose: (message: any, ...meta: any[]): void => {
       if (!isLevelEnabled('verbose')) return;
       if (typeof message === 'string') {
-        logger.verbose(message, ...meta);
+        contextLogger().verbose(message, ...meta);
       } else {
-        logger.verbose(formatIfNeeded(message));
+        contextLogger().verbose(formatIfNeeded(message));
       }
     },
     debug: (message: any, ...meta: any[]): void => {
       if (!isLevelEnabled('debug')) return;
       if (typeof message === 'string') {
-        logger.debug(message, ...meta);
+        contextLogger().debug(message, ...meta);
       } else {
-        logger.debug(formatIfNeeded(message));
+        contextLogger().debug(formatIfNeeded(message));
       }
     },
     silly: (message: any, ...meta: any[]): void => {
       if (!isLevelEnabled('silly')) return;
       if (typeof message === 'string') {
-        logger.silly(message, ...meta);
+        contextLogger().silly(message, ...meta);
       } else {
-        logger.silly(formatIfNeeded(message));
+        contextLogger().silly(formatIfNeeded(message));
       }
     },
     profile: (id: string, meta?: Record<string, any>): void => {
@@ -240,7 +284,14 @@ export function createLoggerWithConfig(config: Config) {
     startTimer: (): winston.Profiler => {
       return logger.startTimer();
     },
-    isLevelEnabled
+    isLevelEnabled,
+    // Writes the pending messages and closes the transports
+    close: (): Promise<void> => {
+      return new Promise(resolve => {
+        logger.on('finish', () => resolve());
+        logger.end();
+      });
+    }
   };
 
   return winstonLogger;
@@ -265,16 +316,36 @@ export interface ILogger {
   profile(id: string, meta?: Record<string, any>): void;
   startTimer(): winston.Profiler;
   isLevelEnabled(level: string): boolean;
+  close(): Promise<void>;
 }
 
 // Creates a basic logger for scenarios where config is unavailable
 const defaultLogger = createLoggerWithConfig({
+  TRANSPORT: process.argv.includes('--stdio') || process.env.TRANSPORT === 'stdio' ? 'stdio' : 'http',
   PORT: '3001',
   HOST: '0.0.0.0',
   GOOGLE_CLIENT_ID: '',
   GOOGLE_CLIENT_SECRET: '',
   OAUTH_REDIRECT_PATH: '/oauth/callback',
-  LOG_LEVEL: 'error,warn,info,debug'
+  LOG_LEVEL: 'error,warn,info,debug',
+  LOG_FORMAT: 'text',
+  LOG_REDACT: 'tokens,codes,emails,descriptions',
+  EVENT_CACHE_TTL: '60',
+  WATCH_CALENDAR_IDS: '',
+  WATCH_CHANNEL_TTL: '604800',
+  MULTI_TENANT: 'false',
+  AUTH_MODE: 'none',
+  TOKEN_STORE: 'file',
+  GOOGLE_AUTH_MODE: 'oauth',
+  GOOGLE_MAX_RETRIES: '4',
+  GOOGLE_RETRY_BASE_DELAY: '500',
+  GOOGLE_RETRY_MAX_DELAY: '30000',
+  GOOGLE_RATE_LIMIT: '10',
+  GOOGLE_RATE_BURST: '20',
+  MAX_SESSIONS: '100',
+  MAX_SESSIONS_PER_CLIENT: '20',
+  SESSION_IDLE_TIMEOUT: '1800',
+  SHUTDOWN_TIMEOUT: '25'
 });
 
 export default defaultLogger;
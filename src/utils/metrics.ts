@@ -0,0 +1,88 @@
+import { Registry, Counter, Histogram, Gauge, collectDefaultMetrics } from 'prom-client';
+
+// Registry of the metrics exposed at /metrics
+export const metricsRegistry = new Registry();
+
+// Process metrics (CPU, memory, event loop lag), collected on each scrape
+collectDefaultMetrics({ register: metricsRegistry });
+
+// Buckets in seconds, from quick reads to slow writes with retries
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export const toolCallsTotal = new Counter({
+  name: 'mcp_tool_calls_total',
+  help: 'MCP tool calls by tool and outcome',
+  labelNames: ['tool', 'outcome'] as const,
+  registers: [metricsRegistry]
+});
+
+export const toolCallDuration = new Histogram({
+  name: 'mcp_tool_call_duration_seconds',
+  help: 'Duration of MCP tool calls by tool and outcome',
+  labelNames: ['tool', 'outcome'] as const,
+  buckets: DURATION_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+export const googleApiRequestsTotal = new Counter({
+  name: 'google_api_requests_total',
+  help: 'Google Calendar API requests by method and HTTP status code',
+  labelNames: ['method', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+export const googleApiRequestDuration = new Histogram({
+  name: 'google_api_request_duration_seconds',
+  help: 'Duration of Google Calendar API requests by method and HTTP status code',
+  labelNames: ['method', 'status'] as const,
+  buckets: DURATION_BUCKETS,
+  registers: [metricsRegistry]
+});
+
+export const googleApiRetriesTotal = new Counter({
+  name: 'google_api_retries_total',
+  help: 'Retried Google Calendar API requests by method and reason',
+  labelNames: ['method', 'reason'] as const,
+  registers: [metricsRegistry]
+});
+
+export const activeSessions = new Gauge({
+  name: 'mcp_active_sessions',
+  help: 'Open MCP sessions by transport',
+  labelNames: ['transport'] as const,
+  registers: [metricsRegistry]
+});
+
+export const tokenRefreshesTotal = new Counter({
+  name: 'google_token_refreshes_total',
+  help: 'OAuth access token refreshes by account and result',
+  labelNames: ['account', 'result'] as const,
+  registers: [metricsRegistry]
+});
+
+// Expiration date of the access token of each account, in milliseconds since the epoch
+const accessTokenExpiries = new Map<string, number>();
+
+new Gauge({
+  name: 'google_access_token_remaining_seconds',
+  help: 'Remaining lifetime of the OAuth access token of each account (negative once expired)',
+  labelNames: ['account'] as const,
+  registers: [metricsRegistry],
+  collect() {
+    this.reset();
+    for (const [account, expiryDate] of accessTokenExpiries) {
+      this.set({ account }, Math.round((expiryDate - Date.now()) / 1000));
+    }
+  }
+});
+
+/**
+ * Records the expiration of an account's access token, or forgets it when the account has no token
+ */
+export const setAccessTokenExpiry = (accountId: string, expiryDate?: number | null): void => {
+  if (expiryDate) {
+    accessTokenExpiries.set(accountId, expiryDate);
+  } else {
+    accessTokenExpiries.delete(accountId);
+  }
+};
@@ -0,0 +1,115 @@
+// Helpers to manipulate RFC 5545 recurrence lines (RRULE, EXRULE, RDATE, EXDATE)
+
+export interface OccurrenceStart {
+  dateTime?: string | null;
+  date?: string | null;
+}
+
+export interface SplitRecurrence {
+  before: string[];
+  after: string[];
+}
+
+// Formats a Date as an RFC 5545 UTC timestamp (YYYYMMDDTHHMMSSZ)
+const formatUtcTimestamp = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+// Gets the local calendar date (YYYYMMDD) of an occurrence as written by Google
+const getOccurrenceDate = (start: OccurrenceStart): string => {
+  const value = start.date || start.dateTime || '';
+  return value.substring(0, 10).replace(/-/g, '');
+};
+
+// Parses the parts of an RRULE/EXRULE value into an ordered list of key/value pairs
+const parseRule = (value: string): Array<[string, string]> => {
+  return value.split(';').filter(Boolean).map(part => {
+    const [key, ...rest] = part.split('=');
+    return [key.toUpperCase(), rest.join('=')];
+  });
+};
+
+const formatRule = (parts: Array<[string, string]>): string => {
+  return parts.map(([key, value]) => `${key}=${value}`).join(';');
+};
+
+/**
+ * Builds the UNTIL value that ends a series right before the given occurrence
+ */
+export const buildUntilBefore = (start: OccurrenceStart): string => {
+  if (start.date) {
+    const previousDay = new Date(`${start.date}T00:00:00Z`);
+    previousDay.setUTCDate(previousDay.getUTCDate() - 1);
+    return previousDay.toISOString().substring(0, 10).replace(/-/g, '');
+  }
+
+  if (!start.dateTime) {
+    throw new Error('Occurrence has no start date');
+  }
+
+  return formatUtcTimestamp(new Date(Date.parse(start.dateTime) - 1000));
+};
+
+/**
+ * Returns the COUNT of the first RRULE, if the series is bounded by a count
+ */
+export const getRuleCount = (recurrence: string[]): number | undefined => {
+  const rule = recurrence.find(line => line.toUpperCase().startsWith('RRULE:'));
+  if (!rule) {
+    return undefined;
+  }
+
+  const count = parseRule(rule.substring('RRULE:'.length)).find(([key]) => key === 'COUNT');
+  return count ? parseInt(count[1], 10) : undefined;
+};
+
+/**
+ * Splits a recurrence at the given occurrence, returning the lines for the series that
+ * ends before it and for the new series that starts at it.
+ *
+ * When the rule is bounded by COUNT, occurrencesBefore must hold how many occurrences
+ * happen before the split so the total number of occurrences is preserved.
+ */
+export const splitRecurrence = (
+  recurrence: string[],
+  splitAt: OccurrenceStart,
+  occurrencesBefore?: number
+): SplitRecurrence => {
+  const until = buildUntilBefore(splitAt);
+  const splitDate = getOccurrenceDate(splitAt);
+  const before: string[] = [];
+  const after: string[] = [];
+
+  for (const line of recurrence) {
+    const separator = line.indexOf(':');
+    const head = line.substring(0, separator);
+    const value = line.substring(separator + 1);
+    const name = head.split(';')[0].toUpperCase();
+
+    if (name === 'RRULE' || name === 'EXRULE') {
+      const parts = parseRule(value);
+      const count = parts.find(([key]) => key === 'COUNT');
+      const bounded = parts.filter(([key]) => key !== 'COUNT' && key !== 'UNTIL');
+
+      if (name === 'RRULE' && count && occurrencesBefore !== undefined) {
+        before.push(`${head}:${formatRule([...bounded, ['COUNT', String(occurrencesBefore)]])}`);
+        after.push(`${head}:${formatRule([...bounded, ['COUNT', String(parseInt(count[1], 10) - occurrencesBefore)]])}`);
+      } else {
+        before.push(`${head}:${formatRule([...bounded, ['UNTIL', until]])}`);
+        after.push(line);
+      }
+    } else if (name === 'RDATE' || name === 'EXDATE') {
+      // Each explicit date goes to the series it falls into
+      const dates = value.split(',');
+      const earlier = dates.filter(date => date.substring(0, 8) < splitDate);
+      const later = dates.filter(date => date.substring(0, 8) >= splitDate);
+      if (earlier.length) before.push(`${head}:${earlier.join(',')}`);
+      if (later.length) after.push(`${head}:${later.join(',')}`);
+    } else {
+      before.push(line);
+      after.push(line);
+    }
+  }
+
+  return { before, after };
+};
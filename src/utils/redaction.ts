@@ -0,0 +1,126 @@
+export type RedactionCategory = 'tokens' | 'codes' | 'emails' | 'descriptions';
+
+export const REDACTION_CATEGORIES: RedactionCategory[] = ['tokens', 'codes', 'emails', 'descriptions'];
+
+const REDACTED = '[REDACTED]';
+
+// Objects nested deeper than this are not inspected, which also stops on circular references
+const MAX_DEPTH = 8;
+
+// Fields whose values are always replaced, in objects and JSON text
+const SENSITIVE_FIELDS: { [category in RedactionCategory]: string[] } = {
+  tokens: ['access_token', 'refresh_token', 'id_token', 'client_secret', 'authorization', 'token', 'key', 'api_key'],
+  codes: ['code_verifier'],
+  emails: [],
+  descriptions: ['description']
+};
+
+// Parameters whose values are replaced in URLs and form bodies. Authorization codes only travel
+// as parameters, while "code" fields in JSON are error codes.
+const SENSITIVE_PARAMS: { [category in RedactionCategory]: string[] } = {
+  tokens: ['access_token', 'refresh_token', 'id_token', 'client_secret', 'token', 'key'],
+  codes: ['code', 'code_verifier'],
+  emails: [],
+  descriptions: []
+};
+
+// Values recognized by their format in free text, such as messages and stack traces
+const SENSITIVE_PATTERNS: { [category in RedactionCategory]: [RegExp, string][] } = {
+  tokens: [
+    [/\bBearer\s+[\w.~+/=-]+/gi, `Bearer ${REDACTED}`],
+    [/\bya29\.[\w.-]+/g, REDACTED], // Google access tokens
+    [/\b1\/\/[\w.-]+/g, REDACTED], // Google refresh tokens
+    [/\beyJ[\w-]+\.[\w-]+\.[\w-]*/g, REDACTED] // JWTs, such as ID tokens
+  ],
+  codes: [
+    [/\b4\/[\w-]{10,}/g, REDACTED] // Google authorization codes
+  ],
+  emails: [
+    // The domain is kept, so logs still tell accounts of different organizations apart
+    [/\b[\w.%+-]+@((?:[\w-]+\.)+[a-z]{2,})\b/gi, '***@$1']
+  ],
+  descriptions: []
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Parses the redaction policy: a comma separated list of categories, "all" or "none"
+ */
+export const parseRedactionPolicy = (policy: string): RedactionCategory[] => {
+  const items = policy.split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+
+  if (items.includes('none')) {
+    return [];
+  }
+  if (items.includes('all')) {
+    return REDACTION_CATEGORIES;
+  }
+
+  for (const item of items) {
+    if (!REDACTION_CATEGORIES.includes(item as RedactionCategory)) {
+      throw new Error(`Invalid redaction category: ${item}. Use ${REDACTION_CATEGORIES.join(', ')}, all or none`);
+    }
+  }
+  return items as RedactionCategory[];
+};
+
+/**
+ * Removes secrets and personal data from log entries, according to the enabled categories
+ */
+export class Redactor {
+  private fields: Set<string>;
+  private patterns: [RegExp, string][];
+
+  constructor(categories: RedactionCategory[]) {
+    const fields = categories.flatMap(category => SENSITIVE_FIELDS[category]);
+    this.fields = new Set(fields);
+
+    this.patterns = categories.flatMap(category => SENSITIVE_PATTERNS[category]);
+    if (fields.length) {
+      const names = fields.map(escapeRegExp).join('|');
+      this.patterns.unshift(
+        // "field": "value" in JSON
+        [new RegExp(String.raw`("(?:${names})"\s*:\s*)"(?:[^"\\]|\\.)*"`, 'gi'), `$1"${REDACTED}"`],
+        // The same in JSON escaped inside another JSON string, such as a tool result
+        [new RegExp(String.raw`(\\"(?:${names})\\"\s*:\s*)\\"(?:\\\\(?:\\.|[^\\])|\\[^"\\]|[^\\])*\\"`, 'gi'), `$1\\"${REDACTED}\\"`]
+      );
+    }
+
+    const params = categories.flatMap(category => SENSITIVE_PARAMS[category]);
+    if (params.length) {
+      // param=value in URLs and form bodies
+      const names = params.map(escapeRegExp).join('|');
+      this.patterns.unshift([new RegExp(String.raw`((?:^|[?&\s])(?:${names})=)[^&\s"'#]+`, 'gi'), `$1${REDACTED}`]);
+    }
+  }
+
+  public isEnabled(): boolean {
+    return this.patterns.length > 0;
+  }
+
+  public redactText(text: string): string {
+    return this.patterns.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+  }
+
+  public redactValue(value: unknown, key?: string, depth = 0): unknown {
+    if (key && this.fields.has(key.toLowerCase())) {
+      return REDACTED;
+    }
+    if (typeof value === 'string') {
+      return this.redactText(value);
+    }
+    if (!value || typeof value !== 'object' || value instanceof Date || depth >= MAX_DEPTH) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item, undefined, depth + 1));
+    }
+
+    const redacted: { [key: string]: unknown } = {};
+    for (const [entryKey, entryValue] of Object.entries(value)) {
+      redacted[entryKey] = this.redactValue(entryValue, entryKey, depth + 1);
+    }
+    return redacted;
+  }
+}
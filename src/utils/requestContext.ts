@@ -0,0 +1,28 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+
+// Context of the work being done for a request, added to every log written while it runs
+export interface RequestContext {
+  correlationId: string;
+  sessionId?: string; // MCP session that received the request
+  tool?: string; // MCP tool being called
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const newCorrelationId = (): string => crypto.randomUUID();
+
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
+
+/**
+ * Runs a function in a context that extends the current one. The context follows the
+ * asynchronous work the function starts, down to the Google API calls of a tool.
+ */
+export const runWithContext = <T>(context: Partial<RequestContext>, fn: () => T): T => {
+  const current = storage.getStore();
+  return storage.run({
+    ...current,
+    ...context,
+    correlationId: context.correlationId || current?.correlationId || newCorrelationId()
+  }, fn);
+};
@@ -0,0 +1,50 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { TokenBucket } from './tokenBucket.js';
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Takes a token, letting the clock run until it is granted
+  const acquire = async (bucket: TokenBucket): Promise<number> => {
+    const wait = bucket.acquire();
+    await jest.runAllTimersAsync();
+    return wait;
+  };
+
+  it('lets a burst up to the capacity through at once', async () => {
+    const bucket = new TokenBucket(10, 3);
+
+    expect(await bucket.acquire()).toBe(0);
+    expect(await bucket.acquire()).toBe(0);
+    expect(await bucket.acquire()).toBe(0);
+  });
+
+  it('holds requests beyond the capacity to the rate, in order', async () => {
+    const bucket = new TokenBucket(20, 2);
+    await bucket.acquire();
+    await bucket.acquire();
+
+    const waits = [bucket.acquire(), bucket.acquire(), bucket.acquire()];
+    await jest.runAllTimersAsync();
+
+    expect(await Promise.all(waits)).toEqual([50, 100, 150]);
+  });
+
+  it('refills up to the capacity over time', async () => {
+    const bucket = new TokenBucket(10, 2);
+    await bucket.acquire();
+    await bucket.acquire();
+
+    jest.advanceTimersByTime(10 * 1000);
+
+    expect(await acquire(bucket)).toBe(0);
+    expect(await acquire(bucket)).toBe(0);
+    expect(await acquire(bucket)).toBe(100);
+  });
+});
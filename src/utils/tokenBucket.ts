@@ -0,0 +1,38 @@
+/**
+ * Token bucket rate limiter. Holds up to `capacity` tokens, refilled at `rate` tokens per second,
+ * so bursts up to the capacity go through at once and longer runs are held to the rate.
+ */
+export class TokenBucket {
+  private rate: number;
+  private capacity: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(rate: number, capacity: number) {
+    this.rate = rate;
+    this.capacity = Math.max(capacity, 1);
+    this.tokens = this.capacity;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Takes a token, waiting until one is available. Callers are served in order: a token
+   * is reserved right away, leaving the bucket in debt until the refill covers it.
+   *
+   * @returns The time waited, in milliseconds
+   */
+  public async acquire(): Promise<number> {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) / 1000 * this.rate);
+    this.updatedAt = now;
+    this.tokens -= 1;
+
+    if (this.tokens >= 0) {
+      return 0;
+    }
+
+    const wait = Math.ceil(-this.tokens / this.rate * 1000);
+    await new Promise(resolve => setTimeout(resolve, wait));
+    return wait;
+  }
+}
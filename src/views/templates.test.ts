@@ -0,0 +1,25 @@
+import { describe, it, expect } from '@jest/globals';
+import { escapeHtml, errorTemplate, userKeyTemplate } from './templates.js';
+
+describe('templates', () => {
+  it('escapes HTML special characters', () => {
+    expect(escapeHtml(`<script>alert("x") & 'y'</script>`))
+      .toBe('&lt;script&gt;alert(&quot;x&quot;) &amp; &#39;y&#39;&lt;/script&gt;');
+  });
+
+  it('escapes the error message', () => {
+    const html = errorTemplate('<img src=x onerror=alert(1)>');
+
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+  });
+
+  it('escapes the email, key and URL of the user key page', () => {
+    const html = userKeyTemplate('<b>me@example.com</b>', 'key"<', 'https://evil.example"><script>/sse');
+
+    expect(html).not.toContain('<b>');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('<code>key&quot;&lt;</code>');
+    expect(html).toContain('?key=key%22%3C');
+  });
+});
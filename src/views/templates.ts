@@ -1,3 +1,7 @@
+// Escapes a value interpolated into HTML, so requests and errors cannot inject markup
+export const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
 export const successTemplate = `
   <html>
     <head>
@@ -32,9 +36,33 @@ export const errorTemplate = (error: string) => `
       <div class="container">
         <h1 class="error">Authorization Error</h1>
         <p>An error occurred during the authorization process:</p>
-        <p class="error">${error}</p>
+        <p class="error">${escapeHtml(error)}</p>
         <p>Please try again or contact support.</p>
       </div>
     </body>
   </html>
 `;
+
+export const userKeyTemplate = (email: string, key: string, sseUrl: string) => `
+  <html>
+    <head>
+      <title>Authorization Completed</title>
+      <style>
+        body { font-family: Arial, sans-serif; text-align: center; margin-top: 50px; }
+        .success { color: green; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        code { display: block; padding: 10px; background: #f4f4f4; word-break: break-all; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <h1 class="success">Authorization Successfully Completed!</h1>
+        <p>The Google Calendar MCP server has been authorized for <strong>${escapeHtml(email)}</strong>.</p>
+        <p>Use this key to connect your MCP client. It is shown only once and replaces any previous key:</p>
+        <code>${escapeHtml(key)}</code>
+        <p>Send it as an <em>Authorization: Bearer</em> header, or connect to:</p>
+        <code>${escapeHtml(`${sseUrl}?key=${encodeURIComponent(key)}`)}</code>
+      </div>
+    </body>
+  </html>
+`;